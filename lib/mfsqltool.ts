@@ -9,20 +9,184 @@ import { calcViewName, extractViewName } from "./view_names";
 
 export type ColumnParser<T> = (value: any) => T;
 
-export class Connection<T, V> {
+/**
+ * The `ON CONFLICT` clause of an `upsert`
+ */
+export interface UpsertOptions {
+    /**
+     * Must be the columns of a unique index (or constraint) of the table
+     */
+    conflictColumns: string[];
+
+    /**
+     * The columns that are updated (to their inserted values) when there is
+     * a conflict. Each one must also be inserted. If empty, then nothing is
+     * done when there is a conflict
+     */
+    updateColumns: string[];
+}
+
+export type IsolationLevel = "READ COMMITTED" | "REPEATABLE READ" | "SERIALIZABLE";
+
+export interface TransactionOptions {
+    /**
+     * Default: The default isolation level of the database (which is "READ
+     * COMMITTED", unless it was configured differently). Can't be set for a
+     * nested transaction
+     */
+    isolationLevel?: IsolationLevel;
+
+    /**
+     * How many times to retry the entire transaction if it fails because of
+     * a serialization failure or a deadlock. Nested transactions are never
+     * retried by themselves (the error is propagated to the outermost
+     * transaction, which is retried). Default: 3
+     */
+    maxRetries?: number;
+}
+
+const DEFAULT_TRANSACTION_MAX_RETRIES = 3;
+
+const DEFAULT_QUERY_STREAM_BATCH_SIZE = 1000;
+
+/**
+ * A query that is executed by a `Connection`
+ */
+export interface QueryInfo {
+    /**
+     * The text that is sent to the database (with "$1", "$2", etc...
+     * placeholders)
+     */
+    text: string;
+
+    numParams: number;
+
+    /**
+     * The location of the code that called the `Connection` method, for
+     * example: "/app/src/employees.ts:42:17". null if it isn't known
+     */
+    sourceLocation: string | null;
+}
+
+/**
+ * Called for every query that a `Connection` executes. The hooks must not
+ * throw
+ */
+export interface QueryHooks {
+    onQueryStart?: (query: QueryInfo) => void;
+    onQueryEnd?: (query: QueryInfo, durationMs: number, rowCount: number) => void;
+    onQueryError?: (query: QueryInfo, durationMs: number, err: any) => void;
+}
+
+/**
+ * The methods that execute queries, which are shared by `Connection` (with a
+ * single client) and `PoolConnection`
+ */
+export abstract class BaseConnection<T, V> {
     /**
      * Used only to statically identify this type
      */
     protected readonly MfConnectionTypeTag: undefined;
 
-    constructor(client: pg.Client) {
-        this.client = client;
+    /**
+     * @param hooks For logging and tracing all of the queries of this
+     * connection
+     */
+    protected constructor(hooks?: QueryHooks) {
+        this.hooks = hooks !== undefined ? hooks : null;
 
         // tslint:disable-next-line:no-unbound-method no-unused-expression
         this.preparePlaceholder;
     }
 
-    readonly client: pg.Client;
+    private readonly hooks: QueryHooks | null;
+
+    /**
+     * Set only on the connection objects that are given to the actions of
+     * `transaction`
+     */
+    private transactionClient: pg.ClientBase | null = null;
+
+    /**
+     * Runs the action with the client of this connection (outside of any
+     * `transaction`)
+     */
+    protected abstract withOwnClient<A>(action: (client: pg.ClientBase) => Promise<A>): Promise<A>;
+
+    /**
+     * @returns The client for the cursor of a `queryStream` that isn't
+     * called inside of a `transaction`. It is released when the iteration is
+     * finished
+     */
+    protected abstract checkOutStreamClient(): Promise<pg.PoolClient>;
+
+    /**
+     * Runs the action with the client of the transaction, or with the client
+     * of this connection
+     */
+    private async withClient<A>(action: (client: pg.ClientBase) => Promise<A>): Promise<A> {
+        if (this.transactionClient !== null) {
+            return await action(this.transactionClient);
+        }
+
+        return await this.withOwnClient(action);
+    }
+
+    /**
+     * Must be called at the start of each public method that executes
+     * queries, before its first `await` (after which its caller is no longer
+     * on the stack)
+     *
+     * @returns The `sourceLocation` for the hooks (null if there are no hooks)
+     */
+    private querySourceLocation(): string | null {
+        return this.hooks !== null ? callerSourceLocation() : null;
+    }
+
+    /**
+     * Calls the hooks (if there are any) around the execution of the query.
+     * `run` should only execute the query (so that the duration doesn't
+     * include waiting for a client from the pool)
+     */
+    private async runWithHooks(text: string, values: any[], sourceLocation: string | null, run: () => Promise<pg.QueryResult>): Promise<pg.QueryResult> {
+        const hooks = this.hooks;
+        if (hooks === null) {
+            return await run();
+        }
+
+        const queryInfo: QueryInfo = {
+            text: text,
+            numParams: values.length,
+            sourceLocation: sourceLocation
+        };
+
+        if (hooks.onQueryStart !== undefined) {
+            hooks.onQueryStart(queryInfo);
+        }
+
+        const startTime = Date.now();
+        let queryResult: pg.QueryResult;
+        try {
+            queryResult = await run();
+        } catch (err) {
+            if (hooks.onQueryError !== undefined) {
+                hooks.onQueryError(queryInfo, Date.now() - startTime, err);
+            }
+            throw err;
+        }
+
+        if (hooks.onQueryEnd !== undefined) {
+            hooks.onQueryEnd(queryInfo, Date.now() - startTime, queryResult.rowCount);
+        }
+        return queryResult;
+    }
+
+    /**
+     * @returns A `clientQueryPromise` that also calls the hooks
+     */
+    private hookedClientQuery(sourceLocation: string | null): ClientQuery {
+        return (client, text, values) => this.runWithHooks(text, values, sourceLocation, () => clientQueryPromise(client, text, values));
+    }
 
     /**
      * May be overriden by child class
@@ -93,6 +257,8 @@ export class Connection<T, V> {
      * or an 'ON CONFLICT DO UPDATE ... WHERE' clause
      */
     async insertMaybe<Row extends object = any>(tableName: string, value: object, epilogue?: SqlQueryExpr<T, V>): Promise<ResultRow<Row | null>> {
+        const sourceLocation = this.querySourceLocation();
+
         if (Array.isArray(value)) {
             throw new Error("Invalid insert call with value that is an Array (must be a single object)");
         }
@@ -134,7 +300,7 @@ export class Connection<T, V> {
         text += epilogueText;
         vals = vals.concat(epilogueValues);
 
-        const queryResult = await clientQueryPromise(this.client, text, vals);
+        const queryResult = await this.executeQuery(text, vals, sourceLocation);
 
         for (const row of queryResult.rows) {
             for (const field of queryResult.fields) {
@@ -157,7 +323,94 @@ export class Connection<T, V> {
         }
     }
 
+    /**
+     * Inserts a row, or if it conflicts with an existing row (on the
+     * `conflictColumns`), updates the `updateColumns` of the existing row.
+     *
+     * Example:
+     *
+     *     conn.upsert("employee", { email: email, salary: 100 }, { conflictColumns: ["email"], updateColumns: ["salary"] });
+     *
+     * @param epilogue May contain a RETURNING clause
+     *
+     * @returns null if the query returned no rows (such as when
+     * `updateColumns` is empty and there was a conflict)
+     */
+    async upsert<Row extends object = any>(tableName: string, value: object, options: UpsertOptions, epilogue?: SqlQueryExpr<T, V>): Promise<ResultRow<Row> | null> {
+        const sourceLocation = this.querySourceLocation();
+
+        if (Array.isArray(value)) {
+            throw new Error("Invalid upsert call with value that is an Array (must be a single object)");
+        }
+
+        const fields = Object.keys(value);
+        fields.sort();
+
+        if (fields.length === 0) {
+            // TODO !!!
+            throw new Error("TODO Implement inserting 0 column rows");
+        }
+
+        if (options.conflictColumns.length === 0) {
+            throw new Error("Invalid upsert call with no conflictColumns");
+        }
+
+        // Example result:
+        //     "name", "height", "birth_date"
+        const fieldsSqlFragment: string = fields.map(escapeIdentifier).join(", ");
+
+        // Example result:
+        //     $1, $2, $3
+        const paramsSqlFragment: string = fields.map((_f, index) => "$" + (index + 1)).join(", ");
+
+        let text =
+            `INSERT INTO ${escapeIdentifier(tableName)} (${fieldsSqlFragment})\n` +
+            `VALUES (${paramsSqlFragment})\n` +
+            `${onConflictSqlFragment(options)}\n`;
+
+        let vals: any[] = [];
+        // tslint:disable-next-line:prefer-for-of
+        for (let i = 0; i < fields.length; ++i) {
+            vals.push(this.preparePlaceholder(`field: "${fields[i]}"`, (<any>value)[fields[i]]));
+        }
+
+        let epilogueText: string;
+        let epilogueValues: any[];
+        if (epilogue !== undefined) {
+            [epilogueText, epilogueValues] = epilogue.render(vals.length);
+        } else {
+            [epilogueText, epilogueValues] = ["", []];
+        }
+
+        text += epilogueText;
+        vals = vals.concat(epilogueValues);
+
+        const queryResult = await this.executeQuery(text, vals, sourceLocation);
+
+        for (const row of queryResult.rows) {
+            for (const field of queryResult.fields) {
+                const fieldName = field.name;
+                const oldVal = row[fieldName];
+                try {
+                    row[fieldName] = new RealVal(oldVal !== null ? this.parseColumn(field.dataTypeID, oldVal) : null, fieldName, row);
+                } catch (err) {
+                    throw new Error(`Error parsing column "${fieldName}" containing value "${oldVal}": ${err.message}`);
+                }
+            }
+        }
+
+        if (queryResult.rows.length === 0) {
+            return null;
+        } else if (queryResult.rows.length === 1) {
+            return queryResult.rows[0];
+        } else {
+            throw new Error(`Expected upsert query to return 0 or 1 rows. Got ${queryResult.rows.length} rows`);
+        }
+    }
+
     async insertMany<Row extends object = any>(tableName: string, values: object[], epilogue?: SqlQueryExpr<T, V>): Promise<ResultRow<Row>[]> {
+        const sourceLocation = this.querySourceLocation();
+
         if (values.length === 0) {
             return [];
         }
@@ -170,7 +423,7 @@ export class Connection<T, V> {
             throw new Error("TODO Implement inserting 0 column rows");
         }
 
-        const colTypesQuery = await clientQueryPromise(this.client,
+        const colTypesQuery = await this.executeQuery(
             `
             select
                 pg_attribute.attname,
@@ -184,7 +437,7 @@ export class Connection<T, V> {
             and pg_class.relname = $1
             and pg_attribute.attnum >= 1
             and pg_attribute.atttypid = pg_type.oid;
-            `, [tableName]);
+            `, [tableName], sourceLocation);
 
         const columnTypes = new Map<string, string>();
         for (const row of colTypesQuery.rows) {
@@ -237,7 +490,66 @@ export class Connection<T, V> {
         text += epilogueText;
         vals = vals.concat(epilogueValues);
 
-        const queryResult = await clientQueryPromise(this.client, text, vals);
+        const queryResult = await this.executeQuery(text, vals, sourceLocation);
+
+        for (const row of queryResult.rows) {
+            for (const field of queryResult.fields) {
+                const fieldName = field.name;
+                const oldVal = row[fieldName];
+                try {
+                    row[fieldName] = new RealVal(oldVal !== null ? this.parseColumn(field.dataTypeID, oldVal) : null, fieldName, row);
+                } catch (err) {
+                    throw new Error(`Error parsing column "${fieldName}" containing value "${oldVal}": ${err.message}`);
+                }
+            }
+        }
+
+        return queryResult.rows;
+    }
+
+    /**
+     * Updates the columns of the table that are the fields of `value`, for
+     * all of the rows that are selected by the `epilogue` (which should
+     * contain the WHERE clause, and may also contain a RETURNING clause).
+     *
+     * Example:
+     *
+     *     conn.update("employee", { salary: 100 }, conn.sql`WHERE id = ${id}`);
+     */
+    async update<Row extends object = any>(tableName: string, value: object, epilogue: SqlQueryExpr<T, V>): Promise<ResultRow<Row>[]> {
+        const sourceLocation = this.querySourceLocation();
+
+        if (Array.isArray(value)) {
+            throw new Error("Invalid update call with value that is an Array (must be a single object)");
+        }
+
+        const fields = Object.keys(value);
+        fields.sort();
+
+        if (fields.length === 0) {
+            throw new Error("Invalid update call with value that has no fields (must update at least one column)");
+        }
+
+        // Example result:
+        //     "name" = $1, "height" = $2, "birth_date" = $3
+        const setSqlFragment: string = fields.map((f, index) => escapeIdentifier(f) + " = $" + (index + 1)).join(", ");
+
+        let text =
+            `UPDATE ${escapeIdentifier(tableName)}\n` +
+            `SET ${setSqlFragment}\n`;
+
+        let vals: any[] = [];
+        // tslint:disable-next-line:prefer-for-of
+        for (let i = 0; i < fields.length; ++i) {
+            vals.push(this.preparePlaceholder(`field: "${fields[i]}"`, (<any>value)[fields[i]]));
+        }
+
+        const [epilogueText, epilogueValues] = epilogue.render(vals.length);
+
+        text += epilogueText;
+        vals = vals.concat(epilogueValues);
+
+        const queryResult = await this.executeQuery(text, vals, sourceLocation);
 
         for (const row of queryResult.rows) {
             for (const field of queryResult.fields) {
@@ -254,13 +566,72 @@ export class Connection<T, V> {
         return queryResult.rows;
     }
 
-    protected async executeQuery(text: string, values: any[]) {
-        return await clientQueryPromise(this.client, text, values);
+    /**
+     * Deletes the rows of the table that match the filter, which is either
+     * an object whose fields are the values of columns (a `null` field
+     * matches rows where the column is NULL), or the condition of the WHERE
+     * clause. For example:
+     *
+     *     conn.deleteWhere("employee", { department_id: departmentId });
+     *     conn.deleteWhere("employee", conn.sql`hiredate < ${cutoffDate}`);
+     *
+     * @returns The number of rows that were deleted
+     */
+    async deleteWhere(tableName: string, filter: object | SqlQueryExpr<T, V>): Promise<number> {
+        const sourceLocation = this.querySourceLocation();
+
+        let text = `DELETE FROM ${escapeIdentifier(tableName)}\nWHERE `;
+        let vals: any[] = [];
+
+        if (filter instanceof SqlQueryExpr) {
+            const [filterText, filterValues] = filter.render();
+            text += filterText;
+            vals = filterValues;
+        } else {
+            if (Array.isArray(filter)) {
+                throw new Error("Invalid deleteWhere call with filter that is an Array (must be a single object)");
+            }
+
+            const fields = Object.keys(filter);
+            fields.sort();
+
+            if (fields.length === 0) {
+                throw new Error("Invalid deleteWhere call with filter that has no fields (must filter by at least one column)");
+            }
+
+            // Example result:
+            //     "department_id" = $1 AND "phonenumber" IS NULL
+            const conditions: string[] = [];
+            for (const field of fields) {
+                const value = (<any>filter)[field];
+                if (value === null) {
+                    conditions.push(`${escapeIdentifier(field)} IS NULL`);
+                } else {
+                    vals.push(this.preparePlaceholder(`filter field: "${field}"`, value));
+                    conditions.push(`${escapeIdentifier(field)} = $${vals.length}`);
+                }
+            }
+            text += conditions.join(" AND ");
+        }
+
+        const queryResult = await this.executeQuery(text, vals, sourceLocation);
+        return queryResult.rowCount;
+    }
+
+    /**
+     * @param sourceLocation The result of `querySourceLocation` (default: the
+     * location of the code that calls this method)
+     */
+    protected async executeQuery(text: string, values: any[], sourceLocation?: string | null) {
+        const clientQuery = this.hookedClientQuery(sourceLocation !== undefined ? sourceLocation : this.querySourceLocation());
+        return await this.withClient(client => clientQuery(client, text, values));
     }
 
     async query<Row extends object = any>(query: SqlQueryExpr<T, V>): Promise<ResultRow<Row>[]> {
+        const sourceLocation = this.querySourceLocation();
+
         const [text, values] = query.render();
-        const queryResult = await this.executeQuery(text, values);
+        const queryResult = await this.executeQuery(text, values, sourceLocation);
         for (const row of queryResult.rows) {
             for (const field of queryResult.fields) {
                 const fieldName = field.name;
@@ -304,27 +675,356 @@ export class Connection<T, V> {
         }
     }
 
+    /**
+     * For queries that may return too many rows to hold in memory at once.
+     * The rows are fetched in batches, using a server-side cursor:
+     *
+     *     for await (const rows of conn.queryStream<{ id: Req<number> }>(conn.sql`SELECT id FROM employee`)) {
+     *         ...
+     *     }
+     *
+     * The cursor is declared inside of the current `transaction`, or
+     * otherwise (only with a pool) inside of a new transaction on a client
+     * that is checked out of the pool until all of the rows have been
+     * fetched. With a single client, this must be called inside of a
+     * `transaction`, because the other queries of the connection would
+     * otherwise run inside of the transaction of the cursor. Stopping the
+     * iteration early (using `break`) closes the cursor (and rolls back the
+     * new transaction).
+     *
+     * @param batchSize The maximum number of rows in each batch (a positive
+     * integer, default: 1000)
+     */
+    async *queryStream<Row extends object = any>(query: SqlQueryExpr<T, V>, batchSize?: number): AsyncIterableIterator<ResultRow<Row>[]> {
+        const clientQuery = this.hookedClientQuery(this.querySourceLocation());
+
+        // It is part of the text of the FETCH queries
+        if (batchSize !== undefined && !(Number.isInteger(batchSize) && batchSize > 0)) {
+            throw new Error(`Invalid queryStream batchSize (must be a positive integer): ${batchSize}`);
+        }
+
+        const [text, values] = query.render();
+        const fetchSize = batchSize !== undefined ? batchSize : DEFAULT_QUERY_STREAM_BATCH_SIZE;
+        const cursorName = await randomIdentifier("cursor_");
+
+        const ownTransaction = this.transactionClient === null;
+        let client: pg.ClientBase;
+        let poolClient: pg.PoolClient | null = null;
+        if (this.transactionClient !== null) {
+            client = this.transactionClient;
+        } else {
+            poolClient = await this.checkOutStreamClient();
+            client = poolClient;
+        }
+
+        let completed = false;
+        let error: any = null;
+        try {
+            if (ownTransaction) {
+                await clientQuery(client, "BEGIN", []);
+            }
+            const declareText = `DECLARE ${cursorName} NO SCROLL CURSOR FOR ${text}`;
+            await clientQuery(client, declareText, values);
+
+            while (!completed) {
+                const fetchText = `FETCH FORWARD ${fetchSize} FROM ${cursorName}`;
+                const queryResult = await clientQuery(client, fetchText, []);
+                for (const row of queryResult.rows) {
+                    for (const field of queryResult.fields) {
+                        const fieldName = field.name;
+                        const oldVal = row[fieldName];
+                        try {
+                            row[fieldName] = new RealVal(oldVal !== null ? this.parseColumn(field.dataTypeID, oldVal) : null, fieldName, row);
+                        } catch (err) {
+                            throw new Error(`Error parsing column "${fieldName}" containing value "${oldVal}": ${err.message}`);
+                        }
+                    }
+                }
+
+                completed = queryResult.rows.length < fetchSize;
+                if (queryResult.rows.length > 0) {
+                    yield queryResult.rows;
+                }
+            }
+
+            if (ownTransaction) {
+                await clientQuery(client, "COMMIT", []);
+            } else {
+                await clientQuery(client, `CLOSE ${cursorName}`, []);
+            }
+        } catch (err) {
+            error = err;
+            throw err;
+        } finally {
+            if (!completed || error !== null) {
+                // Either the iteration was stopped early, or there was an
+                // error (in which case the current transaction is already
+                // aborted, and the cursor can't be closed)
+                try {
+                    if (ownTransaction) {
+                        await clientQuery(client, "ROLLBACK", []);
+                    } else if (error === null) {
+                        await clientQuery(client, `CLOSE ${cursorName}`, []);
+                    }
+                } catch (e2) {
+                    console.error("ERROR CLOSING CURSOR", e2);
+                    brokenClients.add(client);
+                    // Always prefer to re-throw the original error (see
+                    // `withTransaction`)
+                }
+            }
+
+            if (poolClient !== null) {
+                // Make the pool discard the client if it may be broken (even
+                // if the only error was from closing the cursor)
+                if (brokenClients.has(poolClient)) {
+                    poolClient.release(error !== null ? error : new Error("Failed to close the cursor of queryStream"));
+                } else {
+                    poolClient.release();
+                }
+            }
+        }
+    }
+
+    /**
+     * For statements that don't return any rows (such as UPDATE or DELETE
+     * without a RETURNING clause)
+     *
+     * @returns The number of rows that were affected
+     */
+    async execute(query: SqlQueryExpr<T, V>): Promise<number> {
+        const sourceLocation = this.querySourceLocation();
+
+        const [text, values] = query.render();
+        const queryResult = await this.executeQuery(text, values, sourceLocation);
+        return queryResult.rowCount;
+    }
+
+    /**
+     * For queries that return 1 row with 1 column. The type argument is the
+     * type of the value of the column (including `null` if it is nullable).
+     * For example:
+     *
+     *     const count = await conn.queryScalar<number>(conn.sql`SELECT COUNT(*)::int FROM employee`);
+     *
+     * @returns The value of the column
+     */
+    async queryScalar<Val = any>(query: SqlQueryExpr<T, V>): Promise<Val> {
+        // Cast away the type of "this" so that "mfsqlchecker" doesn't detect
+        // this line of code as query that should be analyzed
+        const values: any[] = await (<any>this).queryColumn(query);
+        if (values.length !== 1) {
+            throw new Error(`Expected query to return 1 row. Got ${values.length} rows`);
+        }
+        return values[0];
+    }
+
+    /**
+     * For queries that return 1 column. The type argument is the type of the
+     * values of the column (including `null` if it is nullable)
+     *
+     * @returns The values of the column, for all of the rows
+     */
+    async queryColumn<Val = any>(query: SqlQueryExpr<T, V>): Promise<Val[]> {
+        const sourceLocation = this.querySourceLocation();
+
+        const [text, values] = query.render();
+        const queryResult = await this.executeQuery(text, values, sourceLocation);
+        if (queryResult.fields.length !== 1) {
+            throw new Error(`Expected query to return 1 column. Got ${queryResult.fields.length} columns`);
+        }
+
+        const field = queryResult.fields[0];
+        return queryResult.rows.map(row => {
+            const oldVal = row[field.name];
+            try {
+                return oldVal !== null ? this.parseColumn(field.dataTypeID, oldVal) : null;
+            } catch (err) {
+                throw new Error(`Error parsing column "${field.name}" containing value "${oldVal}": ${err.message}`);
+            }
+        });
+    }
+
+    /**
+     * Runs the action inside a transaction, which is committed if the action
+     * succeeds, and rolled back if it throws. The action receives a connection
+     * (of the same class as this one) that must be used for all of the queries
+     * of the transaction:
+     *
+     *     await conn.transaction(async tx => {
+     *         await tx.query(conn.sql`...`);
+     *     });
+     *
+     * If the transaction fails because of a serialization failure or a
+     * deadlock, then the action is run again (in a new transaction), so it
+     * shouldn't have any side effects other than its queries.
+     *
+     * Calling `transaction` on the connection of a transaction creates a
+     * nested transaction, using a savepoint: If the nested action throws,
+     * then only its own changes are rolled back
+     */
+    async transaction<A>(action: (tx: this) => Promise<A>, options?: TransactionOptions): Promise<A> {
+        const clientQuery = this.hookedClientQuery(this.querySourceLocation());
+        const isolationLevel = options !== undefined && options.isolationLevel !== undefined ? options.isolationLevel : null;
+        const maxRetries = options !== undefined && options.maxRetries !== undefined ? options.maxRetries : DEFAULT_TRANSACTION_MAX_RETRIES;
+
+        const transactionClient = this.transactionClient;
+        if (transactionClient !== null) {
+            if (isolationLevel !== null) {
+                throw new Error("The isolation level of a nested transaction can't be set");
+            }
+            return await withSavepoint(transactionClient, () => action(this), clientQuery);
+        }
+
+        for (let attempt = 0; ; ++attempt) {
+            try {
+                return await this.withClient(async client => {
+                    // The transaction connection shares everything with this
+                    // one (and inherits any overridden methods), but all of
+                    // its queries use the same client
+                    const tx: this = Object.create(this);
+                    tx.transactionClient = client;
+                    return await withTransaction(client, isolationLevel, () => action(tx), clientQuery);
+                });
+            } catch (err) {
+                if (attempt >= maxRetries || !isRetryableTransactionError(err)) {
+                    throw err;
+                }
+            }
+        }
+    }
+
     async unsafeQuery(text: string, values?: any[]): Promise<pg.QueryResult> {
+        const sourceLocation = this.querySourceLocation();
+
         const vals: any[] = values !== undefined ? values : [];
-        const queryResult = await clientQueryPromise(this.client, text, vals);
+        const queryResult = await this.executeQuery(text, vals, sourceLocation);
         return queryResult;
     }
 }
 
+export class Connection<T, V> extends BaseConnection<T, V> {
+    /**
+     * @param hooks For logging and tracing all of the queries of this
+     * connection
+     */
+    constructor(client: pg.Client, hooks?: QueryHooks) {
+        super(hooks);
+        this.client = client;
+    }
+
+    readonly client: pg.Client;
+
+    protected async withOwnClient<A>(action: (client: pg.ClientBase) => Promise<A>): Promise<A> {
+        return await action(this.client);
+    }
+
+    protected checkOutStreamClient(): Promise<pg.PoolClient> {
+        // The other queries of this connection would run inside of the
+        // transaction of the cursor
+        throw new Error("queryStream with a single client must be called inside of a transaction");
+    }
+}
+
+/**
+ * A connection that checks out a client from the pool for each query, or for
+ * each `transaction` (for all of its queries)
+ */
+export class PoolConnection<T, V> extends BaseConnection<T, V> {
+    /**
+     * @param hooks For logging and tracing all of the queries of this
+     * connection
+     */
+    constructor(pool: pg.Pool, hooks?: QueryHooks) {
+        super(hooks);
+        this.pool = pool;
+    }
+
+    readonly pool: pg.Pool;
+
+    protected async withOwnClient<A>(action: (client: pg.ClientBase) => Promise<A>): Promise<A> {
+        const client = await this.pool.connect();
+        let result: A;
+        try {
+            result = await action(client);
+        } catch (err) {
+            // Make the pool discard the client if it may be broken
+            client.release(brokenClients.has(client) ? err : undefined);
+            throw err;
+        }
+        client.release();
+        return result;
+    }
+
+    protected async checkOutStreamClient(): Promise<pg.PoolClient> {
+        return await this.pool.connect();
+    }
+}
+
+/**
+ * The clients whose connection is in an unknown state, because a query
+ * failed without an error from the database (for example, the connection was
+ * lost), or because a ROLLBACK failed. These must not be returned to the pool
+ */
+const brokenClients = new WeakSet<pg.ClientBase>();
+
+/**
+ * @returns The location of the first stack frame outside of this file, which
+ * is the code that called a `Connection` method (see `querySourceLocation`)
+ */
+function callerSourceLocation(): string | null {
+    const stackFrames = stackTrace.parse(new Error());
+
+    // The first frame is this function. Its file name is the name of this
+    // file in the stack trace, which isn't `__filename` if the stack trace is
+    // mapped to the TypeScript file (for example, by "source-map-support")
+    const ownFileName: string | null = stackFrames.length > 0 ? stackFrames[0].getFileName() : null;
+
+    for (const stackFrame of stackFrames) {
+        const fileName: string | null = stackFrame.getFileName();
+        if (fileName !== null && fileName !== __filename && fileName !== ownFileName && path.isAbsolute(fileName)) {
+            return `${fileName}:${stackFrame.getLineNumber()}:${stackFrame.getColumnNumber()}`;
+        }
+    }
+    return null;
+}
+
+/**
+ * Example result:
+ *
+ *     ON CONFLICT ("email") DO UPDATE SET "salary" = EXCLUDED."salary"
+ */
+function onConflictSqlFragment(options: UpsertOptions): string {
+    const conflictTarget = `ON CONFLICT (${options.conflictColumns.map(escapeIdentifier).join(", ")})`;
+    if (options.updateColumns.length === 0) {
+        return `${conflictTarget} DO NOTHING`;
+    }
+    return `${conflictTarget} DO UPDATE SET ${options.updateColumns.map(c => `${escapeIdentifier(c)} = EXCLUDED.${escapeIdentifier(c)}`).join(", ")}`;
+}
+
 export function escapeIdentifier(str: string) {
     // See:
     // <https://github.com/brianc/node-postgres/blob/60d8df659c5481723abada2344ac14d77377338c/lib/client.js#L401>
     return '"' + str.replace(/"/g, '""') + '"';
 }
 
+/**
+ * Executes a query on a client: either `clientQueryPromise`, or (for the
+ * queries of a connection) a function that also calls the hooks
+ */
+type ClientQuery = (client: pg.ClientBase, text: string, values: any[]) => Promise<pg.QueryResult>;
+
 /**
  * Use this instead of the built-in promise support of pg.Client because
  * `connectionLogSQL` (currently) needs an actual callback
  */
-async function clientQueryPromise(client: pg.Client, text: string, values: any[]): Promise<pg.QueryResult> {
+async function clientQueryPromise(client: pg.ClientBase, text: string, values: any[]): Promise<pg.QueryResult> {
     return await new Promise<pg.QueryResult>((resolve, reject) => {
         client.query(text, values, (err: Error, result: pg.QueryResult): void => {
             if (<boolean>(<any>err)) {
+                if (getPostgreSqlErrorCode(err) === null) {
+                    brokenClients.add(client);
+                }
                 reject(err);
                 return;
             }
@@ -335,7 +1035,7 @@ async function clientQueryPromise(client: pg.Client, text: string, values: any[]
 }
 
 export class SqlQueryExpr<T, V> {
-    constructor(private conn: Connection<T, V>, private literals: TemplateStringsArray, private placeholders: (SqlView<V> | SqlFrag<string> | number | number[] | string | string[] | boolean | boolean[] | null | T)[]) {
+    constructor(private conn: BaseConnection<T, V>, private literals: TemplateStringsArray, private placeholders: (SqlView<V> | SqlFrag<string> | number | number[] | string | string[] | boolean | boolean[] | null | T)[]) {
     }
 
     render(paramNumOffset: number = 0): [string, any[]] {
@@ -602,6 +1302,12 @@ export function sqlFrag<T extends string>(text: T, runtimeText?: string): SqlFra
     return (<any>SqlFrag).Create(text, runtimeText);
 }
 
+/**
+ * Include this in an UPDATE or DELETE query that intentionally doesn't have
+ * a WHERE clause (otherwise the static checker reports an error)
+ */
+export const ALL_ROWS = sqlFrag("/* ALL_ROWS */");
+
 export class SqlFragAuth<T extends string, Auth> {
     protected dummy: [SqlFragAuth<T, Auth>[], T, Auth];
 }
@@ -965,7 +1671,7 @@ namespace Migrate {
 
         await tryRunPg("create schema_version table", () => createSchemaVersionTable(conn));
 
-        await withTransaction(conn, async () => {
+        await withTransaction(conn, null, async () => {
             await logger("Acquiring schema_version table lock...");
             await tryRunPg("lock \"schema_version\" table", () => conn.query("LOCK TABLE schema_version IN SHARE UPDATE EXCLUSIVE MODE"));
 
@@ -1216,7 +1922,7 @@ namespace Migrate {
     }
 
     export async function dropUnusedViews(conn: pg.Client, views: SqlViewPrivate[], logger: (message: string) => Promise<void>): Promise<void> {
-        await withTransaction(conn, async () => {
+        await withTransaction(conn, null, async () => {
             await logger("Acquiring schema_version table lock...");
             await tryRunPg("lock \"schema_version\" table", () => conn.query("LOCK TABLE schema_version IN SHARE UPDATE EXCLUSIVE MODE"));
 
@@ -1240,7 +1946,7 @@ namespace Migrate {
     }
 
     export async function dropAllViews(conn: pg.Client, logger: (message: string) => Promise<void>): Promise<void> {
-        await withTransaction(conn, async () => {
+        await withTransaction(conn, null, async () => {
             await logger("Acquiring schema_version table lock...");
             await tryRunPg("lock \"schema_version\" table", () => conn.query("LOCK TABLE schema_version IN SHARE UPDATE EXCLUSIVE MODE"));
 
@@ -1361,30 +2067,79 @@ function parsePostgreSqlError(err: any): PostgreSqlError | null {
     };
 }
 
-async function withTransaction<A>(conn: pg.Client, action: () => Promise<A>): Promise<A> {
-    await conn.query("BEGIN");
+/**
+ * @param isolationLevel null for the default isolation level
+ *
+ * @param clientQuery Executes the statements of the transaction (such as
+ * BEGIN and COMMIT)
+ */
+async function withTransaction<A>(conn: pg.ClientBase, isolationLevel: IsolationLevel | null, action: () => Promise<A>, clientQuery: ClientQuery = clientQueryPromise): Promise<A> {
+    await clientQuery(conn, isolationLevel !== null ? `BEGIN ISOLATION LEVEL ${isolationLevel}` : "BEGIN", []);
 
     let result: A;
     try {
         result = await action();
     } catch (e) {
         try {
-            await conn.query("ROLLBACK");
+            await clientQuery(conn, "ROLLBACK", []);
         } catch (e2) {
             console.error("ERROR PERFORMING ROLLBACK", e2);
+            brokenClients.add(conn);
             // A connection error could potentially cause also the rollback to
             // fail. Always prefer to re-throw the original error.
         }
         throw e;
     }
-    await conn.query("COMMIT");
+    await clientQuery(conn, "COMMIT", []);
     return result;
 }
 
+/**
+ * Like `withTransaction`, but for use inside of an existing transaction. Only
+ * the changes of the action are rolled back if it throws
+ */
+async function withSavepoint<A>(conn: pg.ClientBase, action: () => Promise<A>, clientQuery: ClientQuery): Promise<A> {
+    const savepoint = await newSavepoint(conn, clientQuery);
+
+    let result: A;
+    try {
+        result = await action();
+    } catch (e) {
+        try {
+            await rollbackToAndReleaseSavepoint(conn, savepoint, clientQuery);
+        } catch (e2) {
+            console.error("ERROR PERFORMING ROLLBACK TO SAVEPOINT", e2);
+            brokenClients.add(conn);
+            // Always prefer to re-throw the original error (see
+            // `withTransaction`)
+        }
+        throw e;
+    }
+    await releaseSavepoint(conn, savepoint, clientQuery);
+    return result;
+}
+
+/**
+ * @returns true if the error means that the transaction failed only because
+ * of concurrent transactions, and may succeed if it is run again
+ */
+function isRetryableTransactionError(err: any): boolean {
+    const pgErr = parsePostgreSqlError(err);
+    if (pgErr === null) {
+        return false;
+    }
+
+    const POSTGRESQL_ERROR_SERIALIZATION_FAILURE = "40001";
+    const POSTGRESQL_ERROR_DEADLOCK_DETECTED = "40P01";
+
+    return pgErr.code === POSTGRESQL_ERROR_SERIALIZATION_FAILURE ||
+        pgErr.code === POSTGRESQL_ERROR_DEADLOCK_DETECTED;
+}
+
 /**
  * Generates a cryptographically random token
  */
-async function randomSavepointName(): Promise<string> {
+async function randomIdentifier(prefix: string): Promise<string> {
     return await new Promise<string>((resolve, reject) => {
         crypto.randomBytes(24, (err, buf) => {
             if (<boolean>(<any>err)) {
@@ -1393,7 +2148,7 @@ async function randomSavepointName(): Promise<string> {
             }
 
             const token = buf.toString("hex");
-            resolve("savepoint_" + token);
+            resolve(prefix + token);
         });
     });
 }
@@ -1402,18 +2157,18 @@ class Savepoint {
     public constructor(public readonly name: string) { }
 }
 
-async function newSavepoint(conn: pg.Client): Promise<Savepoint> {
-    const savepointName = await randomSavepointName();
+async function newSavepoint(conn: pg.ClientBase, clientQuery: ClientQuery = clientQueryPromise): Promise<Savepoint> {
+    const savepointName = await randomIdentifier("savepoint_");
 
-    await conn.query(`SAVEPOINT ${savepointName}`);
+    await clientQuery(conn, `SAVEPOINT ${savepointName}`, []);
 
     return new Savepoint(savepointName);
 }
 
-async function releaseSavepoint(conn: pg.Client, savepoint: Savepoint): Promise<void> {
-    await conn.query(`RELEASE SAVEPOINT ${savepoint.name}`);
+async function releaseSavepoint(conn: pg.ClientBase, savepoint: Savepoint, clientQuery: ClientQuery = clientQueryPromise): Promise<void> {
+    await clientQuery(conn, `RELEASE SAVEPOINT ${savepoint.name}`, []);
 }
 
-async function rollbackToAndReleaseSavepoint(conn: pg.Client, savepoint: Savepoint): Promise<void> {
-    await conn.query(`ROLLBACK TO SAVEPOINT ${savepoint.name}; RELEASE SAVEPOINT ${savepoint.name}`);
+async function rollbackToAndReleaseSavepoint(conn: pg.ClientBase, savepoint: Savepoint, clientQuery: ClientQuery = clientQueryPromise): Promise<void> {
+    await clientQuery(conn, `ROLLBACK TO SAVEPOINT ${savepoint.name}; RELEASE SAVEPOINT ${savepoint.name}`, []);
 }
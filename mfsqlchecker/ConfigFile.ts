@@ -12,6 +12,9 @@ export interface Config {
     strictDateTimeChecking: boolean;
     customSqlTypeMappings: CustomSqlTypeMapping[];
     uniqueTableColumnTypes: UniqueTableColumnType[];
+    jsonColumnTypes: JsonColumnType[];
+    queryMethods: QueryMethod[];
+    connectionTypeTags: string[];
 }
 
 export interface ColTypesFormat {
@@ -29,20 +32,103 @@ export interface CustomSqlTypeMapping {
     sqlTypeName: SqlType;
 }
 
+/**
+ * The mappings that are used for types that are not mentioned in the
+ * "customSqlTypeMappings" of the config file
+ */
+export const defaultCustomSqlTypeMappings: CustomSqlTypeMapping[] = [
+    { typeScriptTypeName: TypeScriptType.wrap("DbJson"), sqlTypeName: SqlType.wrap("jsonb") },
+    { typeScriptTypeName: TypeScriptType.wrap("Instant"), sqlTypeName: SqlType.wrap("timestamptz") },
+    { typeScriptTypeName: TypeScriptType.wrap("LocalDateTime"), sqlTypeName: SqlType.wrap("timestamp") },
+    { typeScriptTypeName: TypeScriptType.wrap("LocalDate"), sqlTypeName: SqlType.wrap("date") },
+    { typeScriptTypeName: TypeScriptType.wrap("LocalTime"), sqlTypeName: SqlType.wrap("time") },
+    { typeScriptTypeName: TypeScriptType.wrap("UUID"), sqlTypeName: SqlType.wrap("uuid") }
+];
+
 export interface UniqueTableColumnType {
     typeScriptTypeName: TypeScriptType;
     tableName: string;
     columnName: string;
 }
 
+/**
+ * Declares the TypeScript type of the contents of a jsonb table column
+ */
+export interface JsonColumnType {
+    typeScriptTypeName: TypeScriptType;
+    tableName: string;
+    columnName: string;
+}
+
+/**
+ * A method whose calls are statically checked (when it is called on an object
+ * that has one of the "connectionTypeTags" properties)
+ */
+export type QueryMethod
+    = QueryMethod.Select
+    | QueryMethod.Insert;
+
+export namespace QueryMethod {
+    /**
+     * Like `query` ("select"), like `queryScalar` and `queryColumn`
+     * ("selectColumn"), whose type argument is the type of the single result
+     * column, or like `execute` ("execute"), which must not return any
+     * columns. The argument is a `conn.sql` query
+     */
+    export interface Select {
+        kind: "select" | "selectColumn" | "execute";
+        methodName: string;
+        queryArgument: number;
+    }
+
+    /**
+     * Like `insert` (a single object) or `insertMany` (an array of objects).
+     * The epilogue argument is an optional `conn.sql` expression
+     */
+    export interface Insert {
+        kind: "insert" | "insertMany";
+        methodName: string;
+        tableNameArgument: number;
+        valuesArgument: number;
+        epilogueArgument: number | null;
+    }
+}
+
+/**
+ * The methods of the `Connection` class. Methods from the "queryMethods" of
+ * the config file are added to these (and override them if they have the same
+ * name)
+ */
+export const defaultQueryMethods: QueryMethod[] = [
+    { kind: "select", methodName: "query", queryArgument: 0 },
+    { kind: "select", methodName: "queryOne", queryArgument: 0 },
+    { kind: "select", methodName: "queryOneOrNone", queryArgument: 0 },
+    { kind: "select", methodName: "queryStream", queryArgument: 0 },
+    { kind: "selectColumn", methodName: "queryScalar", queryArgument: 0 },
+    { kind: "selectColumn", methodName: "queryColumn", queryArgument: 0 },
+    { kind: "execute", methodName: "execute", queryArgument: 0 },
+    { kind: "insert", methodName: "insert", tableNameArgument: 0, valuesArgument: 1, epilogueArgument: 2 },
+    { kind: "insert", methodName: "insertMaybe", tableNameArgument: 0, valuesArgument: 1, epilogueArgument: 2 },
+    { kind: "insertMany", methodName: "insertMany", tableNameArgument: 0, valuesArgument: 1, epilogueArgument: 2 }
+];
+
+/**
+ * The property that identifies the `Connection` class. Properties from the
+ * "connectionTypeTags" of the config file are added to it
+ */
+export const defaultConnectionTypeTag = "MfConnectionTypeTag";
+
 function normalizeConfigFile(configFile: ConfigFile): Config {
     return {
         migrationsDir: configFile.migrationsDir !== undefined ? configFile.migrationsDir : null,
         postgresVersion: configFile.postgresVersion !== undefined ? configFile.postgresVersion : null,
         colTypesFormat: configFile.colTypesFormat !== undefined ? toColTypesFormat(configFile.colTypesFormat) : defaultColTypesFormat,
         strictDateTimeChecking: configFile.strictDateTimeChecking === true,
-        customSqlTypeMappings: configFile.customSqlTypeMappings !== undefined ? configFile.customSqlTypeMappings.map(toCustomSqlTypeMapping) : [],
-        uniqueTableColumnTypes: configFile.uniqueTableColumnTypes !== undefined ? configFile.uniqueTableColumnTypes.map(toUniqueTableColumnType) : []
+        customSqlTypeMappings: withDefaultCustomSqlTypeMappings(configFile.customSqlTypeMappings !== undefined ? configFile.customSqlTypeMappings.map(toCustomSqlTypeMapping) : []),
+        uniqueTableColumnTypes: configFile.uniqueTableColumnTypes !== undefined ? configFile.uniqueTableColumnTypes.map(toUniqueTableColumnType) : [],
+        jsonColumnTypes: configFile.jsonColumnTypes !== undefined ? configFile.jsonColumnTypes.map(toJsonColumnType) : [],
+        queryMethods: withDefaultQueryMethods(configFile.queryMethods !== undefined ? configFile.queryMethods.map(toQueryMethod) : []),
+        connectionTypeTags: [defaultConnectionTypeTag].concat(configFile.connectionTypeTags !== undefined ? configFile.connectionTypeTags : [])
     };
 }
 
@@ -55,6 +141,9 @@ interface ConfigFile {
     strictDateTimeChecking?: boolean;
     customSqlTypeMappings?: ConfigCustomSqlTypeMapping[];
     uniqueTableColumnTypes?: ConfigUniqueTableColumnType[];
+    jsonColumnTypes?: ConfigJsonColumnType[];
+    queryMethods?: ConfigQueryMethod[];
+    connectionTypeTags?: string[];
 }
 
 interface ConfigColTypesFormat {
@@ -95,6 +184,115 @@ function toUniqueTableColumnType(v: ConfigUniqueTableColumnType): UniqueTableCol
     };
 }
 
+interface ConfigJsonColumnType {
+    typeScriptTypeName: string;
+    tableName: string;
+    columnName: string;
+}
+
+function toJsonColumnType(v: ConfigJsonColumnType): JsonColumnType {
+    return {
+        typeScriptTypeName: TypeScriptType.wrap(v.typeScriptTypeName),
+        tableName: v.tableName,
+        columnName: v.columnName
+    };
+}
+
+interface ConfigQueryMethod {
+    methodName: string;
+    kind: "select" | "selectColumn" | "execute" | "insert" | "insertMany";
+    queryArgument?: number;
+    tableNameArgument?: number;
+    valuesArgument?: number;
+    epilogueArgument?: number | null;
+}
+
+/**
+ * The default argument positions are the same as those of the `Connection`
+ * methods
+ */
+function toQueryMethod(v: ConfigQueryMethod): QueryMethod {
+    switch (v.kind) {
+        case "select":
+        case "selectColumn":
+        case "execute":
+            return {
+                kind: v.kind,
+                methodName: v.methodName,
+                queryArgument: v.queryArgument !== undefined ? v.queryArgument : 0
+            };
+        case "insert":
+        case "insertMany":
+            return {
+                kind: v.kind,
+                methodName: v.methodName,
+                tableNameArgument: v.tableNameArgument !== undefined ? v.tableNameArgument : 0,
+                valuesArgument: v.valuesArgument !== undefined ? v.valuesArgument : 1,
+                epilogueArgument: v.epilogueArgument !== undefined ? v.epilogueArgument : 2
+            };
+        default:
+            return assertNever(v.kind);
+    }
+}
+
+function withDefaultQueryMethods(queryMethods: QueryMethod[]): QueryMethod[] {
+    const defaults = defaultQueryMethods.filter(d => !queryMethods.some(q => q.methodName === d.methodName));
+
+    return defaults.concat(queryMethods);
+}
+
+/**
+ * A default mapping is overridden by any custom mapping that uses the same
+ * TypeScript type or the same SQL type
+ */
+function withDefaultCustomSqlTypeMappings(customSqlTypeMappings: CustomSqlTypeMapping[]): CustomSqlTypeMapping[] {
+    const defaults = defaultCustomSqlTypeMappings.filter(d => !customSqlTypeMappings.some(c =>
+        c.typeScriptTypeName === d.typeScriptTypeName || c.sqlTypeName === d.sqlTypeName));
+
+    return defaults.concat(customSqlTypeMappings);
+}
+
+export function equalsCustomSqlTypeMappings(lhs: CustomSqlTypeMapping[], rhs: CustomSqlTypeMapping[]) {
+    if (lhs.length !== rhs.length) {
+        return false;
+    }
+
+    for (let i = 0; i < lhs.length; ++i) {
+        if (lhs[i].typeScriptTypeName !== rhs[i].typeScriptTypeName ||
+            lhs[i].sqlTypeName !== rhs[i].sqlTypeName) {
+            return false;
+        }
+    }
+
+    return true;
+}
+
+/**
+ * Used for converting the types of result columns
+ */
+export function makeCustomSqlTypes(customSqlTypeMappings: CustomSqlTypeMapping[]): Map<SqlType, TypeScriptType> {
+    const result = new Map<SqlType, TypeScriptType>();
+
+    for (const customSqlTypeMapping of customSqlTypeMappings) {
+        result.set(customSqlTypeMapping.sqlTypeName, customSqlTypeMapping.typeScriptTypeName);
+    }
+
+    return result;
+}
+
+/**
+ * Used for converting the types of query parameters
+ */
+export function makeTypeScriptCustomSqlTypes(customSqlTypeMappings: CustomSqlTypeMapping[]): Map<TypeScriptType, SqlType> {
+    const result = new Map<TypeScriptType, SqlType>();
+
+    for (const customSqlTypeMapping of customSqlTypeMappings) {
+        result.set(customSqlTypeMapping.typeScriptTypeName, customSqlTypeMapping.sqlTypeName);
+    }
+
+    return result;
+}
+
 export function equalsUniqueTableColumnType(lhs: UniqueTableColumnType, rhs: UniqueTableColumnType) {
     return lhs.typeScriptTypeName === rhs.typeScriptTypeName &&
         lhs.tableName === rhs.tableName &&
@@ -115,6 +313,22 @@ export function equalsUniqueTableColumnTypes(lhs: UniqueTableColumnType[], rhs:
     return true;
 }
 
+export function equalsJsonColumnTypes(lhs: JsonColumnType[], rhs: JsonColumnType[]) {
+    if (lhs.length !== rhs.length) {
+        return false;
+    }
+
+    for (let i = 0; i < lhs.length; ++i) {
+        if (lhs[i].typeScriptTypeName !== rhs[i].typeScriptTypeName ||
+            lhs[i].tableName !== rhs[i].tableName ||
+            lhs[i].columnName !== rhs[i].columnName) {
+            return false;
+        }
+    }
+
+    return true;
+}
+
 export function sqlUniqueTypeName(tableName: string, columnName: string): string {
     return tableName + "(" + columnName + ")";
 }
@@ -280,6 +494,80 @@ const configFileSchema = {
                         ],
                         "additionalProperties": false
                     }
+                },
+                "jsonColumnTypes": {
+                    "type": "array",
+                    "items": {
+                        "type": "object",
+                        "properties": {
+                            "typeScriptTypeName": {
+                                "type": "string"
+                            },
+                            "tableName": {
+                                "type": "string"
+                            },
+                            "columnName": {
+                                "type": "string"
+                            }
+                        },
+                        "required": [
+                            "typeScriptTypeName",
+                            "tableName",
+                            "columnName"
+                        ],
+                        "additionalProperties": false
+                    }
+                },
+                "queryMethods": {
+                    "type": "array",
+                    "items": {
+                        "type": "object",
+                        "properties": {
+                            "methodName": {
+                                "type": "string"
+                            },
+                            "kind": {
+                                "type": "string",
+                                "enum": [
+                                    "select",
+                                    "selectColumn",
+                                    "execute",
+                                    "insert",
+                                    "insertMany"
+                                ]
+                            },
+                            "queryArgument": {
+                                "type": "integer",
+                                "minimum": 0
+                            },
+                            "tableNameArgument": {
+                                "type": "integer",
+                                "minimum": 0
+                            },
+                            "valuesArgument": {
+                                "type": "integer",
+                                "minimum": 0
+                            },
+                            "epilogueArgument": {
+                                "type": [
+                                    "integer",
+                                    "null"
+                                ],
+                                "minimum": 0
+                            }
+                        },
+                        "required": [
+                            "methodName",
+                            "kind"
+                        ],
+                        "additionalProperties": false
+                    }
+                },
+                "connectionTypeTags": {
+                    "type": "array",
+                    "items": {
+                        "type": "string"
+                    }
                 }
             },
             "additionalProperties": false
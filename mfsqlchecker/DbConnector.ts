@@ -1,15 +1,20 @@
 import { assertNever } from "assert-never";
 import chalk from "chalk";
 import { Bar, Presets } from "cli-progress";
+import * as crypto from "crypto";
 import * as fs from "fs";
 import * as path from "path";
 import * as postgres from "postgres";
 
-import { ColTypesFormat, equalsUniqueTableColumnTypes, makeUniqueColumnTypes, sqlUniqueTypeName, UniqueTableColumnType } from "./ConfigFile";
+import { ColTypesFormat, CustomSqlTypeMapping, equalsCustomSqlTypeMappings, equalsJsonColumnTypes, equalsUniqueTableColumnTypes, JsonColumnType, makeCustomSqlTypes, makeUniqueColumnTypes, sqlUniqueTypeName, UniqueTableColumnType } from "./ConfigFile";
 import { ErrorDiagnostic, postgresqlErrorDiagnostic, SrcSpan, toSrcSpan } from "./ErrorDiagnostic";
-import { closePg, connectPg, dropAllFunctions, dropAllSequences, dropAllTables, dropAllTypes, escapeIdentifier, newSavepoint, parsePostgreSqlError, pgDescribeQuery, PostgreSqlError, rollbackToAndReleaseSavepoint } from "./pg_extra";
-import { calcDbMigrationsHash, connReplaceDbName, createBlankDatabase, dropDatabase, isMigrationFile, readdirAsync, testDatabaseName } from "./pg_test_db";
-import { ColNullability, ResolvedInsert, ResolvedQuery, ResolvedSelect, SqlType, TypeScriptType } from "./queries";
+import { JsonShapeAnalyzer } from "./json_shapes";
+import { BuiltinFunction, NullabilityAnalyzer, resultTargetEntries } from "./nullability";
+import { calcSchemaKey, PersistentCache } from "./persistent_cache";
+import { closePg, connectPg, dropAllFunctions, dropAllSequences, dropAllTables, dropAllTypes, escapeIdentifier, newSavepoint, NoticeListener, parsePostgreSqlError, pgDescribeQueryWithParseTree, PostgreSqlError, QueryDescription, rollbackToAndReleaseSavepoint } from "./pg_extra";
+import { parsePgNodeTree, PgNode, PgNodeTreeParseError } from "./pg_node_tree";
+import { calcDbMigrationsHash, connReplaceDbName, createBlankDatabase, createDatabaseFromTemplate, dropDatabase, isMigrationFile, readdirAsync, testDatabaseName } from "./pg_test_db";
+import { ColNullability, JsonParam, objectTypeScriptType, parseObjectTypeScriptType, parseStringLiteralUnionType, renderIdentifier, ResolvedInsert, ResolvedQuery, ResolvedSelect, ResultShape, SingleColType, SqlType, StringLiteralUnionParam, stringLiteralUnionType, TypeScriptType } from "./queries";
 import { resolveFromSourceMap } from "./source_maps";
 import { QualifiedSqlViewName, SqlCreateView } from "./views";
 
@@ -18,7 +23,23 @@ export interface Manifest {
     strictDateTimeChecking: boolean;
     viewLibrary: SqlCreateView[];
     queries: ResolvedQuery[];
+    customSqlTypeMappings: CustomSqlTypeMapping[];
     uniqueTableColumnTypes: UniqueTableColumnType[];
+    jsonColumnTypes: JsonColumnType[];
+}
+
+/**
+ * A view or query from the `Manifest` that was checked against the database,
+ * together with the errors that were found in it
+ */
+export interface CheckedQuery {
+    /**
+     * Short human readable description, for example: `View "employee_names"`
+     */
+    description: string;
+    fileName: string;
+    span: SrcSpan;
+    errors: ErrorDiagnostic[];
 }
 
 export type QueryCheckResult = QueryCheckResult.InvalidText;
@@ -35,37 +56,101 @@ namespace QueryCheckResult {
     }
 }
 
+/**
+ * Maximum number of template databases (snapshots of the database after
+ * running some of the migrations) that are kept
+ */
+const MAX_TEMPLATE_DATABASES = 4;
+
 export class DbConnector {
-    private constructor(migrationsDir: string, client: postgres.Sql) {
+    private constructor(migrationsDir: string, adminUrl: string, dbName: string, client: postgres.Sql, noticeListener: NoticeListener, persistentCache: PersistentCache | null, saveTemplates: boolean) {
         this.migrationsDir = migrationsDir;
+        this.adminUrl = adminUrl;
+        this.dbName = dbName;
         this.client = client;
+        this.noticeListener = noticeListener;
+        this.persistentCache = persistentCache;
+        this.saveTemplates = saveTemplates;
     }
 
-    static async Connect(migrationsDir: string, adminUrl: string, name?: string): Promise<DbConnector> {
-        const client = await newConnect(adminUrl, name);
-        return new DbConnector(migrationsDir, client);
+    /**
+     * @param cacheDir Directory where the answers of the queries will be
+     * cached between runs. If null, then they are only cached in memory
+     * @param saveTemplates Whether to save template databases, so that the
+     * migrations don't all need to be run again when they change. Only useful
+     * when the migrations are run more than once (in watch mode or LSP mode)
+     */
+    static async Connect(migrationsDir: string, adminUrl: string, name: string | undefined, cacheDir: string | null, saveTemplates: boolean): Promise<DbConnector> {
+        const noticeListener = new NoticeListener();
+        const [client, dbName] = await newConnect(adminUrl, name, noticeListener);
+        return new DbConnector(migrationsDir, adminUrl, dbName, client, noticeListener, cacheDir !== null ? new PersistentCache(cacheDir, migrationsDir) : null, saveTemplates);
     }
 
     async close(): Promise<void> {
         await closePg(this.client);
+
+        if (this.templateDatabases.size > 0) {
+            const adminConn = connectPg(this.adminUrl);
+            try {
+                for (const templateDbName of this.templateDatabases.values()) {
+                    await dropDatabase(adminConn, templateDbName);
+                }
+            } finally {
+                await closePg(adminConn);
+            }
+            this.templateDatabases.clear();
+        }
     }
 
     private migrationsDir: string;
+    private adminUrl: string;
+    private dbName: string;
     private prevStrictDateTimeChecking: boolean | null = null;
+    private prevCustomSqlTypeMappings: CustomSqlTypeMapping[] = [];
     private prevUniqueTableColumnTypes: UniqueTableColumnType[] = [];
+    private prevJsonColumnTypes: JsonColumnType[] = [];
     private client: postgres.Sql;
+    private noticeListener: NoticeListener;
 
     private viewNames: [string, ViewAnswer][] = [];
 
     private dbMigrationsHash: string = "xxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxx";
 
+    /**
+     * Template databases that contain the state of the database after
+     * running the first N migrations (before `applyUniqueTableColumnTypes`).
+     *
+     * The key is the hash of the first N migrations (see
+     * `migrationsPrefixHashes`), and the value is the name of the database.
+     *
+     * The map is kept in least-recently-used order
+     */
+    private templateDatabases = new Map<string, string>();
+
+    private saveTemplates: boolean;
+
     private tableColsLibrary = new TableColsLibrary();
     private pgTypes = new Map<number, SqlType>();
+
+    private userTypes: UserDefinedTypes = {
+        enums: new Map<SqlType, string[]>(),
+        domains: new Map<SqlType, SqlType>(),
+        composites: new Map<SqlType, CompositeTypeField[]>()
+    };
+    private customSqlTypes = new Map<SqlType, TypeScriptType>();
     private uniqueColumnTypes = new Map<SqlType, TypeScriptType>();
 
     private queryCache = new QueryMap<SelectAnswer>();
     private insertCache = new InsertMap<InsertAnswer>();
 
+    private persistentCache: PersistentCache | null;
+
+    /**
+     * The `schemaKey` that the current contents of `queryCache` and
+     * `insertCache` are valid for
+     */
+    private cacheSchemaKey: string | null = null;
+
     private async dropViews(): Promise<void> {
         for (let i = this.viewNames.length - 1; i >= 0; --i) {
             const viewName = this.viewNames[i];
@@ -74,24 +159,106 @@ export class DbConnector {
         this.viewNames = [];
     }
 
-    async validateManifest(manifest: Manifest): Promise<ErrorDiagnostic[]> {
+    /**
+     * Saves the current state of the database as a new template database
+     */
+    private async saveTemplateDatabase(prefixHash: string): Promise<void> {
+        const existing = this.templateDatabases.get(prefixHash);
+        if (existing !== undefined) {
+            this.templateDatabases.delete(prefixHash);
+            this.templateDatabases.set(prefixHash, existing);
+            return;
+        }
+
+        const templateDbName = await testDatabaseName();
+
+        // A database can only be used as a template when there are no other
+        // connections to it
+        await closePg(this.client);
+        const adminConn = connectPg(this.adminUrl);
+        try {
+            await createDatabaseFromTemplate(adminConn, templateDbName, this.dbName);
+            this.templateDatabases.set(prefixHash, templateDbName);
+
+            while (this.templateDatabases.size > MAX_TEMPLATE_DATABASES) {
+                const [oldestPrefixHash, oldestDbName] = this.templateDatabases.entries().next().value;
+                this.templateDatabases.delete(oldestPrefixHash);
+                await dropDatabase(adminConn, oldestDbName);
+            }
+        } finally {
+            await closePg(adminConn);
+            this.client = connectPg(connReplaceDbName(this.adminUrl, this.dbName), this.noticeListener);
+        }
+    }
+
+    /**
+     * Replaces the database with a copy of a template database
+     */
+    private async restoreTemplateDatabase(prefixHash: string): Promise<void> {
+        const templateDbName = this.templateDatabases.get(prefixHash);
+        if (templateDbName === undefined) {
+            throw new Error(`Template database not found: ${prefixHash}`);
+        }
+        this.templateDatabases.delete(prefixHash);
+        this.templateDatabases.set(prefixHash, templateDbName);
+
+        await closePg(this.client);
+        const adminConn = connectPg(this.adminUrl);
+        try {
+            await dropDatabase(adminConn, this.dbName);
+            await createDatabaseFromTemplate(adminConn, this.dbName, templateDbName);
+        } finally {
+            await closePg(adminConn);
+            this.client = connectPg(connReplaceDbName(this.adminUrl, this.dbName), this.noticeListener);
+        }
+
+        // The views were dropped together with the old database
+        this.viewNames = [];
+    }
+
+    /**
+     * @returns All of the errors that were found, together with a list of
+     * all of the views and queries that were checked
+     */
+    async validateManifest(manifest: Manifest): Promise<[ErrorDiagnostic[], CheckedQuery[]]> {
         const hash = await calcDbMigrationsHash(this.migrationsDir);
-        if (this.dbMigrationsHash !== hash || !equalsUniqueTableColumnTypes(manifest.uniqueTableColumnTypes, this.prevUniqueTableColumnTypes)) {
+        if (this.dbMigrationsHash !== hash ||
+            !equalsUniqueTableColumnTypes(manifest.uniqueTableColumnTypes, this.prevUniqueTableColumnTypes) ||
+            !equalsJsonColumnTypes(manifest.jsonColumnTypes, this.prevJsonColumnTypes)) {
             this.dbMigrationsHash = "xxxxxxxxxxxxxxxxxxxxxxxxxxxxxxxx";
             this.queryCache.clear();
             this.insertCache.clear();
-            await this.dropViews();
-
-            await dropAllTables(this.client);
-            await dropAllSequences(this.client);
-            await dropAllTypes(this.client);
-            await dropAllFunctions(this.client);
 
             const allFiles = await readdirAsync(this.migrationsDir);
             const matchingFiles = allFiles.filter(isMigrationFile).sort();
+            const migrations: [string, string][] = [];
             for (const matchingFile of matchingFiles) {
+                migrations.push([matchingFile, await readFileAsync(path.join(this.migrationsDir, matchingFile))]);
+            }
+            const prefixHashes = migrationsPrefixHashes(migrations);
+
+            // Start from the template database of the longest prefix of the
+            // migrations that hasn't changed (if there is one)
+            let start = migrations.length;
+            while (start > 0 && !this.templateDatabases.has(prefixHashes[start - 1])) {
+                start--;
+            }
+
+            if (start > 0) {
+                console.log("Restoring database after migration file", migrations[start - 1][0]);
+                await this.restoreTemplateDatabase(prefixHashes[start - 1]);
+            } else {
+                await this.dropViews();
+
+                await dropAllTables(this.client);
+                await dropAllSequences(this.client);
+                await dropAllTypes(this.client);
+                await dropAllFunctions(this.client);
+            }
+
+            for (let i = start; i < migrations.length; ++i) {
+                const [matchingFile, text] = migrations[i];
                 console.log("Migration file", matchingFile);
-                const text = await readFileAsync(path.join(this.migrationsDir, matchingFile));
                 try {
                     await this.client.unsafe(text);
                 } catch (err) {
@@ -100,9 +267,15 @@ export class DbConnector {
                         throw err;
                     } else {
                         const errorDiagnostic = postgresqlErrorDiagnostic(path.join(this.migrationsDir, matchingFile), text, perr, perr.position !== null ? toSrcSpan(text, perr.position) : { type: "File" }, "Error in migration file");
-                        return [errorDiagnostic];
+                        return [[errorDiagnostic], []];
                     }
                 }
+
+                // The most common change is editing the last migration, or
+                // adding a new one, so these are the prefixes that are saved
+                if (this.saveTemplates && i >= migrations.length - 2) {
+                    await this.saveTemplateDatabase(prefixHashes[i]);
+                }
             }
 
             this.prevUniqueTableColumnTypes = manifest.uniqueTableColumnTypes;
@@ -112,7 +285,9 @@ export class DbConnector {
             await applyUniqueTableColumnTypes(this.client, this.prevUniqueTableColumnTypes);
             console.log("applyUniqueTableColumnTypes done");
 
-            await this.tableColsLibrary.refreshTables(this.client);
+            this.prevJsonColumnTypes = manifest.jsonColumnTypes;
+
+            await this.tableColsLibrary.refreshTables(this.client, this.prevJsonColumnTypes);
 
             this.pgTypes = new Map<number, SqlType>();
             const pgTypesResult = await this.client.unsafe(
@@ -128,15 +303,48 @@ export class DbConnector {
                 const typname: string = row["typname"];
                 this.pgTypes.set(oid, SqlType.wrap(typname));
             }
+
+            this.userTypes = await loadUserDefinedTypes(this.client);
             this.dbMigrationsHash = hash;
         }
 
+        if (!equalsCustomSqlTypeMappings(manifest.customSqlTypeMappings, this.prevCustomSqlTypeMappings)) {
+            // The mappings only affect how the results are converted to
+            // TypeScript types, so there is no need to re-run the migrations
+            this.queryCache.clear();
+            this.insertCache.clear();
+            this.prevCustomSqlTypeMappings = manifest.customSqlTypeMappings;
+            this.customSqlTypes = makeCustomSqlTypes(this.prevCustomSqlTypeMappings);
+        }
+
         if (manifest.strictDateTimeChecking !== this.prevStrictDateTimeChecking) {
             await this.dropViews();
         }
         this.prevStrictDateTimeChecking = manifest.strictDateTimeChecking;
 
+        const schemaKey = calcSchemaKey({
+            dbMigrationsHash: this.dbMigrationsHash,
+            colTypesFormat: manifest.colTypesFormat,
+            strictDateTimeChecking: manifest.strictDateTimeChecking,
+            customSqlTypeMappings: this.prevCustomSqlTypeMappings,
+            uniqueTableColumnTypes: this.prevUniqueTableColumnTypes,
+            jsonColumnTypes: this.prevJsonColumnTypes
+        });
+        if (schemaKey !== this.cacheSchemaKey) {
+            this.queryCache.clear();
+            this.insertCache.clear();
+            if (this.persistentCache !== null) {
+                const contents = await this.persistentCache.load(schemaKey);
+                if (contents !== null) {
+                    this.queryCache = QueryMap.fromEntries(<[string, SelectAnswer][]>contents.queries);
+                    this.insertCache = InsertMap.fromEntries(<[string, InsertAnswer][]>contents.inserts);
+                }
+            }
+            this.cacheSchemaKey = schemaKey;
+        }
+
         let queryErrors: ErrorDiagnostic[] = [];
+        const checkedQueries: CheckedQuery[] = [];
 
         const [updated, newViewNames] = await updateViews(this.client, manifest.strictDateTimeChecking, this.viewNames, manifest.viewLibrary);
 
@@ -151,12 +359,20 @@ export class DbConnector {
             if (createView === undefined) {
                 throw new Error("The Impossible Happened");
             }
-            queryErrors = queryErrors.concat(viewAnswerToErrorDiagnostics(createView, viewAnswer));
+            const viewErrors = viewAnswerToErrorDiagnostics(createView, viewAnswer);
+            queryErrors = queryErrors.concat(viewErrors);
+            checkedQueries.push({
+                description: `View "${QualifiedSqlViewName.viewName(createView.qualifiedViewname)}"`,
+                fileName: createView.fileName,
+                span: querySourceStart(createView.fileContents, createView.sourceMap),
+                errors: viewErrors
+            });
         }
 
 
         const newQueryCache = new QueryMap<SelectAnswer>();
         const newInsertCache = new InsertMap<InsertAnswer>();
+        let cacheMisses = 0;
 
         // We modify the system catalogs only inside a transaction, so that we
         // can ROLLBACK the changes later. This is needed so that in the
@@ -178,27 +394,37 @@ export class DbConnector {
             for (const query of manifest.queries) {
                 switch (query.type) {
                     case "ResolvedSelect": {
-                        const cachedResult = this.queryCache.get(query.value.text, query.value.colTypes);
-                        if (cachedResult !== undefined) {
-                            queryErrors = queryErrors.concat(queryAnswerToErrorDiagnostics(query.value, cachedResult, manifest.colTypesFormat));
-                            newQueryCache.set(query.value.text, query.value.colTypes, cachedResult);
-                        } else {
-                            const result = await processQuery(this.client, manifest.colTypesFormat, this.pgTypes, this.tableColsLibrary, this.uniqueColumnTypes, query.value);
-                            newQueryCache.set(query.value.text, query.value.colTypes, result);
-                            queryErrors = queryErrors.concat(queryAnswerToErrorDiagnostics(query.value, result, manifest.colTypesFormat));
+                        let result = this.queryCache.get(query.value.text, query.value.colTypes, query.value.resultShape, query.value.singleColType, query.value.stringLiteralUnionParams, query.value.jsonParams);
+                        if (result === undefined) {
+                            cacheMisses++;
+                            result = await processQuery(this.client, this.noticeListener, manifest.colTypesFormat, this.pgTypes, this.userTypes, this.tableColsLibrary, this.customSqlTypes, this.uniqueColumnTypes, query.value);
                         }
+                        newQueryCache.set(query.value.text, query.value.colTypes, query.value.resultShape, query.value.singleColType, query.value.stringLiteralUnionParams, query.value.jsonParams, result);
+                        const answerErrors = queryAnswerToErrorDiagnostics(query.value, result, manifest.colTypesFormat);
+                        queryErrors = queryErrors.concat(answerErrors);
+                        checkedQueries.push({
+                            description: "Query",
+                            fileName: query.value.fileName,
+                            span: query.value.colTypeSpan,
+                            errors: query.value.errors.concat(answerErrors)
+                        });
                         break;
                     }
                     case "ResolvedInsert": {
-                        const cachedResult = this.insertCache.get(query.value.text, query.value.colTypes, query.value.tableName, query.value.insertColumns);
-                        if (cachedResult !== undefined) {
-                            queryErrors = queryErrors.concat(insertAnswerToErrorDiagnostics(query.value, cachedResult, manifest.colTypesFormat));
-                            newInsertCache.set(query.value.text, query.value.colTypes, query.value.tableName, query.value.insertColumns, cachedResult);
-                        } else {
-                            const result = await processInsert(this.client, manifest.colTypesFormat, this.pgTypes, this.tableColsLibrary, this.uniqueColumnTypes, query.value);
-                            newInsertCache.set(query.value.text, query.value.colTypes, query.value.tableName, query.value.insertColumns, result);
-                            queryErrors = queryErrors.concat(insertAnswerToErrorDiagnostics(query.value, result, manifest.colTypesFormat));
+                        let result = this.insertCache.get(query.value.text, query.value.colTypes, query.value.stringLiteralUnionParams, query.value.jsonParams, query.value.tableName, query.value.insertColumns);
+                        if (result === undefined) {
+                            cacheMisses++;
+                            result = await processInsert(this.client, this.noticeListener, manifest.colTypesFormat, this.pgTypes, this.userTypes, this.tableColsLibrary, this.customSqlTypes, this.uniqueColumnTypes, query.value);
                         }
+                        newInsertCache.set(query.value.text, query.value.colTypes, query.value.stringLiteralUnionParams, query.value.jsonParams, query.value.tableName, query.value.insertColumns, result);
+                        const answerErrors = insertAnswerToErrorDiagnostics(query.value, result, manifest.colTypesFormat);
+                        queryErrors = queryErrors.concat(answerErrors);
+                        checkedQueries.push({
+                            description: `Insert into "${query.value.tableName}"`,
+                            fileName: query.value.fileName,
+                            span: query.value.colTypeSpan,
+                            errors: query.value.errors.concat(answerErrors)
+                        });
                         break;
                     }
                     default:
@@ -212,9 +438,24 @@ export class DbConnector {
 
         await this.client.unsafe("ROLLBACK");
 
+        const cacheChanged = cacheMisses > 0 || newQueryCache.size() !== this.queryCache.size() || newInsertCache.size() !== this.insertCache.size();
+
         this.queryCache = newQueryCache;
         this.insertCache = newInsertCache;
 
+        if (this.persistentCache !== null && cacheChanged) {
+            try {
+                await this.persistentCache.save(schemaKey, {
+                    queries: this.queryCache.entries(),
+                    inserts: this.insertCache.entries()
+                });
+            } catch (err) {
+                // The cache is only an optimization, so this shouldn't cause
+                // the check to fail
+                console.error(`Error writing query cache: ${err.message}`);
+            }
+        }
+
         let finalErrors: ErrorDiagnostic[] = [];
         for (const query of manifest.queries) {
             switch (query.type) {
@@ -228,7 +469,7 @@ export class DbConnector {
                     assertNever(query);
             }
         }
-        return finalErrors.concat(queryErrors);
+        return [finalErrors.concat(queryErrors), checkedQueries];
     }
 }
 
@@ -406,21 +647,38 @@ function viewAnswerToErrorDiagnostics(createView: SqlCreateView, viewAnswer: Vie
  * Type safe "Map"-like from queries to some T
  */
 class QueryMap<T> {
-    set(text: string, colTypes: Map<string, [ColNullability, TypeScriptType]> | null, value: T): void {
-        this.internalMap.set(QueryMap.toKey(text, colTypes), value);
+    set(text: string, colTypes: Map<string, [ColNullability, TypeScriptType]> | null, resultShape: ResultShape, singleColType: SingleColType | null, stringLiteralUnionParams: StringLiteralUnionParam[], jsonParams: JsonParam[], value: T): void {
+        this.internalMap.set(QueryMap.toKey(text, colTypes, resultShape, singleColType, stringLiteralUnionParams, jsonParams), value);
     }
 
-    get(text: string, colTypes: Map<string, [ColNullability, TypeScriptType]> | null): T | undefined {
-        return this.internalMap.get(QueryMap.toKey(text, colTypes));
+    get(text: string, colTypes: Map<string, [ColNullability, TypeScriptType]> | null, resultShape: ResultShape, singleColType: SingleColType | null, stringLiteralUnionParams: StringLiteralUnionParam[], jsonParams: JsonParam[]): T | undefined {
+        return this.internalMap.get(QueryMap.toKey(text, colTypes, resultShape, singleColType, stringLiteralUnionParams, jsonParams));
     }
 
     clear(): void {
         this.internalMap = new Map<string, T>();
     }
 
-    private static toKey(text: string, colTypes: Map<string, [ColNullability, TypeScriptType]> | null): string {
+    size(): number {
+        return this.internalMap.size;
+    }
+
+    /**
+     * The result can be restored using `fromEntries`
+     */
+    entries(): [string, T][] {
+        return [...this.internalMap.entries()];
+    }
+
+    static fromEntries<T>(entries: [string, T][]): QueryMap<T> {
+        const result = new QueryMap<T>();
+        result.internalMap = new Map<string, T>(entries);
+        return result;
+    }
+
+    private static toKey(text: string, colTypes: Map<string, [ColNullability, TypeScriptType]> | null, resultShape: ResultShape, singleColType: SingleColType | null, stringLiteralUnionParams: StringLiteralUnionParam[], jsonParams: JsonParam[]): string {
         // TODO Will this really always give a properly unique key?
-        return text + (colTypes === null ? "[NULL]" : stringifyColTypes(colTypes));
+        return text + (colTypes === null ? "[NULL]" : stringifyColTypes(colTypes)) + (resultShape === "Rows" ? "" : `[${resultShape}]`) + (singleColType === null ? "" : JSON.stringify(singleColType)) + stringifyStringLiteralUnionParams(stringLiteralUnionParams) + stringifyJsonParams(jsonParams);
     }
 
     private internalMap = new Map<string, T>();
@@ -430,26 +688,57 @@ class QueryMap<T> {
  * Type safe "Map"-like from insert queries to some T
  */
 class InsertMap<T> {
-    set(text: string, colTypes: Map<string, [ColNullability, TypeScriptType]> | null, tableName: string, insertColumns: Map<string, [TypeScriptType, boolean]>, value: T): void {
-        this.internalMap.set(InsertMap.toKey(text, colTypes, tableName, insertColumns), value);
+    set(text: string, colTypes: Map<string, [ColNullability, TypeScriptType]> | null, stringLiteralUnionParams: StringLiteralUnionParam[], jsonParams: JsonParam[], tableName: string, insertColumns: Map<string, [TypeScriptType, boolean]>, value: T): void {
+        this.internalMap.set(InsertMap.toKey(text, colTypes, stringLiteralUnionParams, jsonParams, tableName, insertColumns), value);
     }
 
-    get(text: string, colTypes: Map<string, [ColNullability, TypeScriptType]> | null, tableName: string, insertColumns: Map<string, [TypeScriptType, boolean]>): T | undefined {
-        return this.internalMap.get(InsertMap.toKey(text, colTypes, tableName, insertColumns));
+    get(text: string, colTypes: Map<string, [ColNullability, TypeScriptType]> | null, stringLiteralUnionParams: StringLiteralUnionParam[], jsonParams: JsonParam[], tableName: string, insertColumns: Map<string, [TypeScriptType, boolean]>): T | undefined {
+        return this.internalMap.get(InsertMap.toKey(text, colTypes, stringLiteralUnionParams, jsonParams, tableName, insertColumns));
     }
 
     clear(): void {
         this.internalMap = new Map<string, T>();
     }
 
-    private static toKey(text: string, colTypes: Map<string, [ColNullability, TypeScriptType]> | null, tableName: string, insertColumns: Map<string, [TypeScriptType, boolean]>): string {
+    size(): number {
+        return this.internalMap.size;
+    }
+
+    /**
+     * The result can be restored using `fromEntries`
+     */
+    entries(): [string, T][] {
+        return [...this.internalMap.entries()];
+    }
+
+    static fromEntries<T>(entries: [string, T][]): InsertMap<T> {
+        const result = new InsertMap<T>();
+        result.internalMap = new Map<string, T>(entries);
+        return result;
+    }
+
+    private static toKey(text: string, colTypes: Map<string, [ColNullability, TypeScriptType]> | null, stringLiteralUnionParams: StringLiteralUnionParam[], jsonParams: JsonParam[], tableName: string, insertColumns: Map<string, [TypeScriptType, boolean]>): string {
         // TODO Will this really always give a properly unique key?
-        return text + (colTypes === null ? "" : stringifyColTypes(colTypes)) + "\"" + tableName + "\"" + stringifyInsertColumns(insertColumns);
+        return text + (colTypes === null ? "" : stringifyColTypes(colTypes)) + stringifyStringLiteralUnionParams(stringLiteralUnionParams) + stringifyJsonParams(jsonParams) + "\"" + tableName + "\"" + stringifyInsertColumns(insertColumns);
     }
 
     private internalMap = new Map<string, T>();
 }
 
+function stringifyJsonParams(jsonParams: JsonParam[]): string {
+    if (jsonParams.length === 0) {
+        return "";
+    }
+    return JSON.stringify(jsonParams.map(p => [p.paramNum, p.type]));
+}
+
+function stringifyStringLiteralUnionParams(stringLiteralUnionParams: StringLiteralUnionParam[]): string {
+    if (stringLiteralUnionParams.length === 0) {
+        return "";
+    }
+    return JSON.stringify(stringLiteralUnionParams.map(p => [p.paramNum, p.labels]));
+}
+
 function stringifyInsertColumns(insertColumns: Map<string, [TypeScriptType, boolean]>): string {
     const keys = [...insertColumns.keys()];
     keys.sort();
@@ -467,14 +756,24 @@ function stringifyInsertColumns(insertColumns: Map<string, [TypeScriptType, bool
 type SelectAnswer =
     QueryAnswer.NoErrors |
     QueryAnswer.DescribeError |
+    QueryAnswer.InvalidEnumParams |
+    QueryAnswer.InvalidJsonParams |
+    QueryAnswer.UnnamedColumnsError |
     QueryAnswer.DuplicateColNamesError |
-    QueryAnswer.WrongColumnTypes;
+    QueryAnswer.WrongColumnTypes |
+    QueryAnswer.WrongNumColumns |
+    QueryAnswer.MissingWhereClause;
 
 type InsertAnswer =
     QueryAnswer.NoErrors |
     QueryAnswer.DescribeError |
+    QueryAnswer.InvalidEnumParams |
+    QueryAnswer.InvalidJsonParams |
+    QueryAnswer.UnnamedColumnsError |
     QueryAnswer.DuplicateColNamesError |
     QueryAnswer.WrongColumnTypes |
+    QueryAnswer.WrongNumColumns |
+    QueryAnswer.MissingWhereClause |
     QueryAnswer.InvalidTableName |
     QueryAnswer.InvalidInsertCols;
 
@@ -488,6 +787,42 @@ namespace QueryAnswer {
         perr: PostgreSqlError;
     }
 
+    export interface InvalidEnumParam {
+        paramNum: number;
+        enumName: string;
+        enumLabels: string[];
+        invalidLabels: string[];
+    }
+
+    export interface InvalidEnumParams {
+        type: "InvalidEnumParams";
+        invalidParams: InvalidEnumParam[];
+    }
+
+    export interface InvalidJsonParam {
+        paramNum: number;
+
+        /**
+         * For example: `DbJson<ShipmentDetails>`
+         */
+        expectedType: TypeScriptType;
+    }
+
+    export interface InvalidJsonParams {
+        type: "InvalidJsonParams";
+        invalidParams: InvalidJsonParam[];
+    }
+
+    export interface UnnamedColumnsError {
+        type: "UnnamedColumnsError";
+
+        /**
+         * For each unnamed column: The position in the query text where the
+         * expression of the column starts (if known)
+         */
+        positions: (number | null)[];
+    }
+
     export interface DuplicateColNamesError {
         type: "DuplicateColNamesError";
         duplicateResultColumns: string[];
@@ -502,10 +837,27 @@ namespace QueryAnswer {
         type: "InvalidTableName";
     }
 
+    export interface MissingWhereClause {
+        type: "MissingWhereClause";
+        command: "UPDATE" | "DELETE";
+    }
+
+    /**
+     * A query of `queryScalar` or `queryColumn` must return exactly one
+     * column, and a query of `execute` must not return any columns
+     */
+    export interface WrongNumColumns {
+        type: "WrongNumColumns";
+        expectedNumColumns: number;
+        numColumns: number;
+    }
+
     export type InvalidInsertCol
         = InvalidInsertCol.MissingRequiredCol
         | InvalidInsertCol.ColWrongType
-        | InvalidInsertCol.ColNotFound;
+        | InvalidInsertCol.ColNotFound
+        | InvalidInsertCol.ConflictColsNotUnique
+        | InvalidInsertCol.UpdateColNotInserted;
 
     export namespace InvalidInsertCol {
         export interface MissingRequiredCol {
@@ -529,6 +881,26 @@ namespace QueryAnswer {
             colName: string;
             invalidType: TypeScriptType;
         }
+
+        /**
+         * The `conflictColumns` of an upsert are not the columns of a
+         * unique index of the table
+         */
+        export interface ConflictColsNotUnique {
+            type: "ConflictColsNotUnique";
+            tableName: string;
+            colNames: string[];
+        }
+
+        /**
+         * The `updateColumns` of an upsert must be set to the inserted
+         * values, so they must also be inserted
+         */
+        export interface UpdateColNotInserted {
+            type: "UpdateColNotInserted";
+            tableName: string;
+            colName: string;
+        }
     }
 
     export interface InvalidInsertCols {
@@ -552,6 +924,41 @@ function queryAnswerToErrorDiagnostics(query: ResolvedSelect, queryAnswer: Selec
             } else {
                 return [postgresqlErrorDiagnostic(query.fileName, query.fileContents, queryAnswer.perr, querySourceStart(query.fileContents, query.sourceMap), null)];
             }
+        case "InvalidEnumParams":
+            return queryAnswer.invalidParams.map<ErrorDiagnostic>(invalidParam => {
+                const param = query.stringLiteralUnionParams.find(p => p.paramNum === invalidParam.paramNum);
+                return {
+                    fileName: query.fileName,
+                    fileContents: query.fileContents,
+                    span: param !== undefined ? param.span : querySourceStart(query.fileContents, query.sourceMap),
+                    messages: [`Invalid value for enum type "${invalidParam.enumName}": ${invalidParam.invalidLabels.map(l => JSON.stringify(l)).join(", ")}`],
+                    epilogue: chalk.bold("Valid values") + ": " + invalidParam.enumLabels.map(l => JSON.stringify(l)).join(" | "),
+                    quickFix: null
+                };
+            });
+        case "InvalidJsonParams":
+            return queryAnswer.invalidParams.map<ErrorDiagnostic>(invalidParam => {
+                const param = query.jsonParams.find(p => p.paramNum === invalidParam.paramNum);
+                return {
+                    fileName: query.fileName,
+                    fileContents: query.fileContents,
+                    span: param !== undefined ? param.span : querySourceStart(query.fileContents, query.sourceMap),
+                    messages: [`Wrong type for a value of a jsonb column. It should be \`${invalidParam.expectedType}\`${param !== undefined ? ` (instead of \`${param.type}\`)` : ""}`],
+                    epilogue: null,
+                    quickFix: null
+                };
+            });
+        case "UnnamedColumnsError":
+            return queryAnswer.positions.map<ErrorDiagnostic>(position => ({
+                fileName: query.fileName,
+                fileContents: query.fileContents,
+                span: position !== null
+                    ? resolveFromSourceMap(query.fileContents, position, query.sourceMap)
+                    : querySourceStart(query.fileContents, query.sourceMap),
+                messages: [`Query return row contains a column without a name ("${UNNAMED_COLUMN_NAME}")`],
+                epilogue: chalk.bold("hint") + ": Specify a name for the column using the Sql \"AS\" keyword",
+                quickFix: null
+            }));
         case "DuplicateColNamesError":
             return [{
                 fileName: query.fileName,
@@ -574,7 +981,10 @@ function queryAnswerToErrorDiagnostics(query: ResolvedSelect, queryAnswer: Selec
             //       "}"
             //     ]
 
-            if (colTypes.length <= 2) {
+            if (query.singleColType !== null) {
+                // The type of a single column, such as: `string | null`
+                replacementText = "<" + queryAnswer.renderedColTypes + ">";
+            } else if (colTypes.length <= 2) {
                 // {
                 // }
                 replacementText = "<{}>";
@@ -622,6 +1032,24 @@ function queryAnswerToErrorDiagnostics(query: ResolvedSelect, queryAnswer: Selec
                     replacementText: replacementText
                 }
             }];
+        case "WrongNumColumns":
+            return [{
+                fileName: query.fileName,
+                fileContents: query.fileContents,
+                span: querySourceStart(query.fileContents, query.sourceMap),
+                messages: [`Query must return ${queryAnswer.expectedNumColumns === 0 ? "no columns" : "exactly one column"} (instead of ${queryAnswer.numColumns})`],
+                epilogue: null,
+                quickFix: null
+            }];
+        case "MissingWhereClause":
+            return [{
+                fileName: query.fileName,
+                fileContents: query.fileContents,
+                span: querySourceStart(query.fileContents, query.sourceMap),
+                messages: [`${queryAnswer.command} statement without a WHERE clause (this will affect all of the rows of the table)`],
+                epilogue: chalk.bold("hint") + `: If this is intentional, add the \`ALL_ROWS\` fragment (or the comment "${ALL_ROWS_MARKER}") to the query`,
+                quickFix: null
+            }];
         default:
             return assertNever(queryAnswer);
     }
@@ -632,9 +1060,24 @@ function insertAnswerToErrorDiagnostics(query: ResolvedInsert, queryAnswer: Inse
         case "NoErrors":
             return [];
         case "DescribeError":
+        case "InvalidEnumParams":
+        case "InvalidJsonParams":
+        case "UnnamedColumnsError":
         case "DuplicateColNamesError":
         case "WrongColumnTypes":
+        case "WrongNumColumns":
             return queryAnswerToErrorDiagnostics(query, queryAnswer, colTypesFormat);
+        case "MissingWhereClause":
+            // The start of the query text isn't part of the source code, so
+            // the error is reported on the table name
+            return [{
+                fileName: query.fileName,
+                fileContents: query.fileContents,
+                span: query.tableNameExprSpan,
+                messages: [`${queryAnswer.command} statement without a WHERE clause (this will affect all of the rows of the table)`],
+                epilogue: chalk.bold("hint") + `: If this is intentional, add the \`ALL_ROWS\` fragment (or the comment "${ALL_ROWS_MARKER}") to the query`,
+                quickFix: null
+            }];
         case "InvalidTableName":
             return [{
                 fileName: query.fileName,
@@ -649,14 +1092,18 @@ function insertAnswerToErrorDiagnostics(query: ResolvedInsert, queryAnswer: Inse
                 fileName: query.fileName,
                 fileContents: query.fileContents,
                 span: query.insertExprSpan,
-                messages: ["Inserted columns are invalid:"].concat(queryAnswer.invalidCols.map(e => {
+                messages: [invalidColsHeading(query)].concat(queryAnswer.invalidCols.map(e => {
                     switch (e.type) {
                         case "MissingRequiredCol":
-                            return `Insert to table "${e.tableName}" is missing the required column: "${e.colName}" (type "${e.colType}")`;
+                            return `Insert to table "${e.tableName}" is missing the required column: "${e.colName}" (type \`${e.colType}\`)`;
                         case "ColWrongType":
-                            return `Insert to table "${e.tableName}" has the wrong type for column "${e.colName}". It should be "${e.colType}" (instead of "${e.invalidType}")`;
+                            return `${insertCommandDescription(query)} table "${e.tableName}" has the wrong type for column "${e.colName}". It should be \`${e.colType}\` (instead of \`${e.invalidType}\`)`;
                         case "ColNotFound":
                             return `Column "${e.colName}" does not exist on table "${e.tableName}"`;
+                        case "ConflictColsNotUnique":
+                            return `Upsert to table "${e.tableName}" has conflict columns (${e.colNames.map(c => `"${c}"`).join(", ")}) that don't match a unique index or constraint of the table`;
+                        case "UpdateColNotInserted":
+                            return `Upsert to table "${e.tableName}" updates the column "${e.colName}", which is not one of the inserted columns`;
                         default:
                             return assertNever(e);
                     }
@@ -669,11 +1116,38 @@ function insertAnswerToErrorDiagnostics(query: ResolvedInsert, queryAnswer: Inse
     }
 }
 
-async function processQuery(client: postgres.Sql, colTypesFormat: ColTypesFormat, pgTypes: Map<number, SqlType>, tableColsLibrary: TableColsLibrary, uniqueColumnTypes: Map<SqlType, TypeScriptType>, query: ResolvedSelect): Promise<SelectAnswer> {
-    let fields: postgres.ColumnList<string> | null;
+function invalidColsHeading(query: ResolvedInsert): string {
+    switch (query.command) {
+        case "INSERT":
+            return "Inserted columns are invalid:";
+        case "UPDATE":
+            return "Updated columns are invalid:";
+        case "DELETE":
+            return "Filter columns are invalid:";
+        default:
+            return assertNever(query.command);
+    }
+}
+
+function insertCommandDescription(query: ResolvedInsert): string {
+    switch (query.command) {
+        case "INSERT":
+            return "Insert to";
+        case "UPDATE":
+            return "Update of";
+        case "DELETE":
+            return "Delete from";
+        default:
+            return assertNever(query.command);
+    }
+}
+
+async function processQuery(client: postgres.Sql, noticeListener: NoticeListener, colTypesFormat: ColTypesFormat, pgTypes: Map<number, SqlType>, userTypes: UserDefinedTypes, tableColsLibrary: TableColsLibrary, customSqlTypes: Map<SqlType, TypeScriptType>, uniqueColumnTypes: Map<SqlType, TypeScriptType>, query: ResolvedSelect): Promise<SelectAnswer> {
+    let description: QueryDescription;
+    let parseTree: string | null;
     const savepoint = await newSavepoint(client);
     try {
-        fields = await pgDescribeQuery(client, query.text);
+        [description, parseTree] = await pgDescribeQueryWithParseTree(client, noticeListener, query.text);
     } catch (err) {
         const perr = parsePostgreSqlError(err);
         if (perr === null) {
@@ -688,6 +1162,87 @@ async function processQuery(client: postgres.Sql, colTypesFormat: ColTypesFormat
     }
     await rollbackToAndReleaseSavepoint(client, savepoint);
 
+    const fields = description.columns;
+
+    const invalidEnumParams = checkStringLiteralUnionParams(pgTypes, userTypes, description.paramTypes, query.stringLiteralUnionParams);
+    if (invalidEnumParams.length > 0) {
+        return {
+            type: "InvalidEnumParams",
+            invalidParams: invalidEnumParams
+        };
+    }
+
+    const queryTree = parseTree !== null ? parseQueryTree(parseTree) : null;
+
+    if (queryTree !== null) {
+        const invalidJsonParams = checkJsonParams(tableColsLibrary, jsonTypeScriptTypeName(customSqlTypes, uniqueColumnTypes, userTypes), queryTree, query.jsonParams);
+        if (invalidJsonParams.length > 0) {
+            return {
+                type: "InvalidJsonParams",
+                invalidParams: invalidJsonParams
+            };
+        }
+    }
+
+    if (queryTree !== null && query.text.indexOf(ALL_ROWS_MARKER) < 0) {
+        const command = unfilteredModificationCommand(queryTree);
+        if (command !== null) {
+            return {
+                type: "MissingWhereClause",
+                command: command
+            };
+        }
+    }
+
+    if (query.resultShape === "NoColumns" && fields !== null && fields.length > 0) {
+        return {
+            type: "WrongNumColumns",
+            expectedNumColumns: 0,
+            numColumns: fields.length
+        };
+    }
+
+    if (query.singleColType !== null) {
+        if (fields === null || fields.length !== 1) {
+            return {
+                type: "WrongNumColumns",
+                expectedNumColumns: 1,
+                numColumns: fields !== null ? fields.length : 0
+            };
+        }
+
+        // The name of the column doesn't matter, so it may be unnamed
+        const notNullColumns = queryTree !== null ? tableColsLibrary.resultColumnsNotNull(queryTree) : null;
+        const jsonShapes = queryTree !== null ? tableColsLibrary.resultColumnsJsonShapes(queryTree) : null;
+        const sqlFields = resolveFieldDefs(tableColsLibrary, pgTypes, userTypes, customSqlTypes, uniqueColumnTypes, fields,
+            notNullColumns !== null && notNullColumns.length === 1 ? notNullColumns : null,
+            jsonShapes !== null && jsonShapes.length === 1 ? jsonShapes : null);
+        const sqlColType = [...sqlFields.values()][0];
+        switch (query.singleColType.type) {
+            case "Any":
+                break;
+            case "Missing":
+                return {
+                    type: "WrongColumnTypes",
+                    renderedColTypes: renderSingleColType(sqlColType)
+                };
+            case "Declared":
+                if (query.singleColType.colType[0] !== sqlColType[0] || query.singleColType.colType[1] !== sqlColType[1]) {
+                    return {
+                        type: "WrongColumnTypes",
+                        renderedColTypes: renderSingleColType(sqlColType)
+                    };
+                }
+                break;
+            default:
+                return assertNever(query.singleColType);
+        }
+
+        return {
+            type: "NoErrors"
+        };
+    }
+
     const duplicateResultColumns: string[] = [];
     if (fields === null) {
         if (query.colTypes !== null && query.colTypes.size !== 0) {
@@ -697,6 +1252,20 @@ async function processQuery(client: postgres.Sql, colTypesFormat: ColTypesFormat
             };
         }
     } else {
+        const unnamedColumnPositions: (number | null)[] = [];
+        for (let i = 0; i < fields.length; ++i) {
+            if (fields[i].name === UNNAMED_COLUMN_NAME) {
+                unnamedColumnPositions.push(queryTree !== null ? resultColumnPosition(queryTree, query.text, i) : null);
+            }
+        }
+
+        if (unnamedColumnPositions.length > 0) {
+            return {
+                type: "UnnamedColumnsError",
+                positions: unnamedColumnPositions
+            };
+        }
+
         for (let i = 0; i < fields.length; ++i) {
             const field = fields[i];
             if (fields.slice(i + 1).findIndex(f => f.name === field.name) >= 0 && duplicateResultColumns.indexOf(field.name) < 0) {
@@ -711,7 +1280,11 @@ async function processQuery(client: postgres.Sql, colTypesFormat: ColTypesFormat
             };
         }
 
-        const sqlFields = resolveFieldDefs(tableColsLibrary, pgTypes, uniqueColumnTypes, fields);
+        const notNullColumns = queryTree !== null ? tableColsLibrary.resultColumnsNotNull(queryTree) : null;
+        const jsonShapes = queryTree !== null ? tableColsLibrary.resultColumnsJsonShapes(queryTree) : null;
+        const sqlFields = resolveFieldDefs(tableColsLibrary, pgTypes, userTypes, customSqlTypes, uniqueColumnTypes, fields,
+            notNullColumns !== null && notNullColumns.length === fields.length ? notNullColumns : null,
+            jsonShapes !== null && jsonShapes.length === fields.length ? jsonShapes : null);
         if (query.colTypes !== null && stringifyColTypes(query.colTypes) !== stringifyColTypes(sqlFields)) {
             return {
                 type: "WrongColumnTypes",
@@ -725,14 +1298,144 @@ async function processQuery(client: postgres.Sql, colTypesFormat: ColTypesFormat
     };
 }
 
-async function processInsert(client: postgres.Sql, colTypesFormat: ColTypesFormat, pgTypes: Map<number, SqlType>, tableColsLibrary: TableColsLibrary, uniqueColumnTypes: Map<SqlType, TypeScriptType>, query: ResolvedInsert): Promise<InsertAnswer> {
+/**
+ * Checks that the parameters that are assigned to (or compared with) jsonb
+ * columns that have a declared type have the same type
+ */
+function checkJsonParams(tableColsLibrary: TableColsLibrary, jsonTypeName: TypeScriptType, queryTree: PgNode, jsonParams: JsonParam[]): QueryAnswer.InvalidJsonParam[] {
+    if (jsonParams.length === 0) {
+        return [];
+    }
+
+    const paramJsonShapes = tableColsLibrary.paramJsonShapes(queryTree);
+
+    const result: QueryAnswer.InvalidJsonParam[] = [];
+    for (const param of jsonParams) {
+        const jsonShape = paramJsonShapes.get(param.paramNum);
+        if (jsonShape !== undefined) {
+            const expectedType = jsonTypeScriptType(jsonTypeName, jsonShape);
+            if (param.type !== expectedType) {
+                result.push({
+                    paramNum: param.paramNum,
+                    expectedType: expectedType
+                });
+            }
+        }
+    }
+    return result;
+}
+
+/**
+ * Checks that the labels of each string literal union parameter are valid
+ * values of the type that PostgreSQL inferred for the parameter (if it is an
+ * enum)
+ */
+function checkStringLiteralUnionParams(pgTypes: Map<number, SqlType>, userTypes: UserDefinedTypes, paramTypes: number[], stringLiteralUnionParams: StringLiteralUnionParam[]): QueryAnswer.InvalidEnumParam[] {
+    const result: QueryAnswer.InvalidEnumParam[] = [];
+    for (const param of stringLiteralUnionParams) {
+        const paramType = paramTypes[param.paramNum - 1] as number | undefined;
+        if (paramType === undefined) {
+            continue;
+        }
+
+        const enumName = psqlOidSqlType(pgTypes, paramType);
+        const enumLabels = userTypes.enums.get(enumName);
+        if (enumLabels === undefined) {
+            continue;
+        }
+
+        const invalidLabels = param.labels.filter(label => enumLabels.indexOf(label) < 0);
+        if (invalidLabels.length > 0) {
+            result.push({
+                paramNum: param.paramNum,
+                enumName: SqlType.unwrap(enumName),
+                enumLabels: enumLabels,
+                invalidLabels: invalidLabels
+            });
+        }
+    }
+    return result;
+}
+
+/**
+ * The name that PostgreSQL gives to a result column when it can't figure out
+ * a name for it (for example `SELECT 1 + 1`)
+ */
+const UNNAMED_COLUMN_NAME = "?column?";
+
+/**
+ * @param query A query tree, as returned by `parseQueryTree`
+ * @param text The text of the query
+ * @param index The index of the result column
+ *
+ * @returns The position (character offset) in `text` where the expression of
+ * the result column starts, or null if it is not known
+ */
+function resultColumnPosition(query: PgNode, text: string, index: number): number | null {
+    const targetEntry = resultTargetEntries(query).filter(te => !te.bool("resjunk"))[index] as PgNode | undefined;
+    if (targetEntry === undefined) {
+        return null;
+    }
+
+    const expr = targetEntry.node("expr");
+    const location = expr !== null ? expr.leftmostLocation() : null;
+    if (location === null) {
+        return null;
+    }
+
+    // The location is a byte offset
+    return Buffer.from(text, "utf8").subarray(0, location).toString("utf8").length;
+}
+
+/**
+ * Queries that contain this comment are allowed to UPDATE or DELETE all of
+ * the rows of a table. The runtime library has an `ALL_ROWS` fragment that
+ * expands to it
+ */
+const ALL_ROWS_MARKER = "/* ALL_ROWS */";
+
+/**
+ * @param query A query tree, as returned by `parseQueryTree`
+ *
+ * @returns The command, if the query (or one of its WITH queries) is an
+ * UPDATE or DELETE that doesn't have a WHERE clause
+ */
+function unfilteredModificationCommand(query: PgNode): "UPDATE" | "DELETE" | null {
+    const CMD_UPDATE = 2;
+    const CMD_DELETE = 4;
+
+    const commandType = query.int("commandType");
+    if (commandType === CMD_UPDATE || commandType === CMD_DELETE) {
+        const jointree = query.node("jointree");
+        if (jointree !== null && jointree.node("quals") === null) {
+            return commandType === CMD_UPDATE ? "UPDATE" : "DELETE";
+        }
+    }
+
+    // Data-modifying statements in WITH are only allowed at the top level
+    for (const cte of query.list("cteList")) {
+        const ctequery = cte instanceof PgNode ? cte.node("ctequery") : null;
+        if (ctequery !== null) {
+            const command = unfilteredModificationCommand(ctequery);
+            if (command !== null) {
+                return command;
+            }
+        }
+    }
+
+    return null;
+}
+
+async function processInsert(client: postgres.Sql, noticeListener: NoticeListener, colTypesFormat: ColTypesFormat, pgTypes: Map<number, SqlType>, userTypes: UserDefinedTypes, tableColsLibrary: TableColsLibrary, customSqlTypes: Map<SqlType, TypeScriptType>, uniqueColumnTypes: Map<SqlType, TypeScriptType>, query: ResolvedInsert): Promise<InsertAnswer> {
     const tableQuery = await client.unsafe(
         `
         select
+            pg_attribute.attrelid,
+            pg_attribute.attnum,
             pg_attribute.attname,
             pg_type.typname,
             pg_attribute.atthasdef,
-            pg_attribute.attnotnull
+            pg_attribute.attnotnull OR pg_type.typnotnull AS attnotnull
         from
             pg_attribute,
             pg_class,
@@ -752,14 +1455,65 @@ async function processInsert(client: postgres.Sql, colTypesFormat: ColTypesForma
         };
     }
 
-    const result = await processQuery(client, colTypesFormat, pgTypes, tableColsLibrary, uniqueColumnTypes, query);
+    const insertColumnFields = [...query.insertColumns.keys()];
+    insertColumnFields.sort();
+
+    if (query.command !== "INSERT" || query.onConflict !== null) {
+        // The query that is analyzed references all of the (updated or
+        // filtered) columns, and for upserts also has a conflict target, so
+        // it can only be analyzed if they are all valid
+        const notFoundCols: QueryAnswer.InvalidInsertCol[] = [];
+        for (const field of insertColumnFields) {
+            const suppliedType = query.insertColumns.get(field);
+            if (suppliedType === undefined) {
+                throw new Error("The Impossible Happened");
+            }
+
+            if (tableQuery.find(r => r["attname"] === field) === undefined) {
+                notFoundCols.push({
+                    type: "ColNotFound",
+                    tableName: query.tableName,
+                    colName: field,
+                    invalidType: suppliedType[0]
+                });
+            }
+        }
+
+        if (query.onConflict !== null) {
+            for (const updateColumn of query.onConflict.updateColumns) {
+                if (!query.insertColumns.has(updateColumn)) {
+                    notFoundCols.push({
+                        type: "UpdateColNotInserted",
+                        tableName: query.tableName,
+                        colName: updateColumn
+                    });
+                }
+            }
+
+            const uniqueIndexes = await tableUniqueIndexes(client, query.tableName);
+            const conflictColumns = new Set(query.onConflict.conflictColumns);
+            if (!uniqueIndexes.some(cols => cols.size === conflictColumns.size && [...cols].every(c => conflictColumns.has(c)))) {
+                notFoundCols.push({
+                    type: "ConflictColsNotUnique",
+                    tableName: query.tableName,
+                    colNames: query.onConflict.conflictColumns
+                });
+            }
+        }
+
+        if (notFoundCols.length > 0) {
+            return {
+                type: "InvalidInsertCols",
+                invalidCols: notFoundCols
+            };
+        }
+    }
+
+    const result = await processQuery(client, noticeListener, colTypesFormat, pgTypes, userTypes, tableColsLibrary, customSqlTypes, uniqueColumnTypes, query);
     if (result.type !== "NoErrors") {
         return result;
     }
 
-    const insertColumnFields = [...query.insertColumns.keys()];
-    insertColumnFields.sort();
-
     const invalidInsertCols: QueryAnswer.InvalidInsertCol[] = [];
 
     for (const field of insertColumnFields) {
@@ -779,10 +1533,15 @@ async function processInsert(client: postgres.Sql, colTypesFormat: ColTypesForma
                 invalidType: suppliedTypeName
             });
         } else {
+            const attrelid: number = row["attrelid"];
+            const attnum: number = row["attnum"];
             const typname: string = row["typname"];
             const attnotnull: boolean = row["attnotnull"];
-            const tblType = sqlTypeToTypeScriptType(uniqueColumnTypes, SqlType.wrap(typname));
-            if (((suppliedTypeName !== TypeScriptType.wrap("null")) && suppliedTypeName !== tblType) ||
+            const jsonShape = tableColsLibrary.jsonShape(attrelid, attnum);
+            const tblType = jsonShape !== null
+                ? jsonTypeScriptType(sqlTypeToTypeScriptType(customSqlTypes, uniqueColumnTypes, userTypes, SqlType.wrap(typname)), jsonShape)
+                : sqlTypeToTypeScriptType(customSqlTypes, uniqueColumnTypes, userTypes, SqlType.wrap(typname));
+            if (((suppliedTypeName !== TypeScriptType.wrap("null")) && !isAssignableInsertType(suppliedTypeName, tblType)) ||
                 (attnotnull && !suppliedTypeNotNull)) {
                 let suppliedTypeStr = TypeScriptType.unwrap(suppliedTypeName);
                 if (!suppliedTypeNotNull && suppliedTypeStr !== "null") {
@@ -806,13 +1565,19 @@ async function processInsert(client: postgres.Sql, colTypesFormat: ColTypesForma
     }
 
     for (const row of tableQuery) {
+        const attrelid: number = row["attrelid"];
+        const attnum: number = row["attnum"];
         const attname: string = row["attname"];
         const typname: string = row["typname"];
         const atthasdef: boolean = row["atthasdef"];
         const attnotnull: boolean = row["attnotnull"];
-        if (!atthasdef) {
+        // Only an INSERT has required columns (an UPDATE leaves the columns
+        // that it doesn't SET unchanged)
+        if (!atthasdef && query.command === "INSERT") {
             if (!query.insertColumns.has(attname)) {
-                let typStr = TypeScriptType.unwrap(sqlTypeToTypeScriptType(uniqueColumnTypes, SqlType.wrap(typname)));
+                const jsonShape = tableColsLibrary.jsonShape(attrelid, attnum);
+                const tblType = sqlTypeToTypeScriptType(customSqlTypes, uniqueColumnTypes, userTypes, SqlType.wrap(typname));
+                let typStr = TypeScriptType.unwrap(jsonShape !== null ? jsonTypeScriptType(tblType, jsonShape) : tblType);
                 if (!attnotnull) {
                     typStr += " | null";
                 }
@@ -839,6 +1604,94 @@ async function processInsert(client: postgres.Sql, colTypesFormat: ColTypesForma
     }
 }
 
+/**
+ * @returns The columns of each of the unique indexes of the table (including
+ * those of primary key and unique constraints) that can be used as the
+ * conflict target of an upsert. Partial indexes and indexes on expressions
+ * are not included
+ */
+async function tableUniqueIndexes(client: postgres.Sql, tableName: string): Promise<Set<string>[]> {
+    const indexQuery = await client.unsafe(
+        `
+        select
+            pg_index.indexrelid,
+            pg_attribute.attname
+        from
+            pg_index,
+            pg_class,
+            pg_attribute
+        where
+        pg_index.indrelid = pg_class.oid
+        AND pg_index.indisunique
+        AND pg_index.indpred IS NULL
+        AND pg_index.indexprs IS NULL
+        AND pg_attribute.attrelid = pg_class.oid
+        AND pg_attribute.attnum = ANY (pg_index.indkey)
+        AND pg_class.relname = $1
+        `, [tableName]);
+
+    const indexes = new Map<number, Set<string>>();
+    for (const row of indexQuery) {
+        const indexrelid: number = row["indexrelid"];
+        const attname: string = row["attname"];
+        let cols = indexes.get(indexrelid);
+        if (cols === undefined) {
+            cols = new Set<string>();
+            indexes.set(indexrelid, cols);
+        }
+        cols.add(attname);
+    }
+    return [...indexes.values()];
+}
+
+/**
+ * A union of string literals can be inserted into a column whose type is a
+ * union of (at least) the same string literals (an enum), or into a "string"
+ * column. An object can be inserted into a composite type column if each of
+ * its fields can be. A JSON value with a type (such as `DbJson<Foo>`) can be
+ * inserted into a jsonb column that doesn't have a declared type (`DbJson`).
+ */
+function isAssignableInsertType(suppliedType: TypeScriptType, tblType: TypeScriptType): boolean {
+    if (suppliedType === tblType) {
+        return true;
+    }
+
+    if (TypeScriptType.unwrap(suppliedType).startsWith(TypeScriptType.unwrap(tblType) + "<") && TypeScriptType.unwrap(suppliedType).endsWith(">")) {
+        return true;
+    }
+
+    const suppliedFields = parseObjectTypeScriptType(suppliedType);
+    if (suppliedFields !== null) {
+        // Composite types: every field must be assignable, and a nullable
+        // field may be supplied with a value that is not null
+        const tblFields = parseObjectTypeScriptType(tblType);
+        return tblFields !== null &&
+            tblFields.length === suppliedFields.length &&
+            tblFields.every(([tblName, tblFieldType, tblNotNull], i) => {
+                const [suppliedName, suppliedFieldType, suppliedNotNull] = suppliedFields[i];
+                if (suppliedName !== tblName) {
+                    return false;
+                } else if (suppliedFieldType === TypeScriptType.wrap("null")) {
+                    return !tblNotNull;
+                } else {
+                    return (suppliedNotNull || !tblNotNull) && isAssignableInsertType(suppliedFieldType, tblFieldType);
+                }
+            });
+    }
+
+    const suppliedLabels = parseStringLiteralUnionType(suppliedType);
+    if (suppliedLabels === null) {
+        return false;
+    }
+
+    if (tblType === TypeScriptType.wrap("string")) {
+        return true;
+    }
+
+    const tblLabels = parseStringLiteralUnionType(tblType);
+    return tblLabels !== null && suppliedLabels.every(label => tblLabels.indexOf(label) >= 0);
+}
+
 function psqlOidSqlType(pgTypes: Map<number, SqlType>, oid: number): SqlType {
     const name = pgTypes.get(oid);
     if (name === undefined) {
@@ -886,11 +1739,122 @@ function psqlOidSqlType(pgTypes: Map<number, SqlType>, oid: number): SqlType {
 //     private defaultCols = new Map<string, Set<string>>();
 // }
 
+/**
+ * Information about the types that were created by the migrations
+ */
+interface UserDefinedTypes {
+    /**
+     * The labels of each enum type, in the order of the enum
+     */
+    enums: Map<SqlType, string[]>;
+
+    /**
+     * The base type of each domain
+     */
+    domains: Map<SqlType, SqlType>;
+
+    /**
+     * The fields of each composite type (`CREATE TYPE ... AS`), in order
+     */
+    composites: Map<SqlType, CompositeTypeField[]>;
+}
+
+interface CompositeTypeField {
+    name: string;
+    type: SqlType;
+
+    /**
+     * Fields of composite types are always nullable, unless their type is a
+     * `NOT NULL` domain
+     */
+    notNull: boolean;
+}
+
+async function loadUserDefinedTypes(client: postgres.Sql): Promise<UserDefinedTypes> {
+    const enums = new Map<SqlType, string[]>();
+    const enumsResult = await client.unsafe(
+        `
+        SELECT
+            pg_type.typname,
+            pg_enum.enumlabel
+        FROM pg_enum
+        JOIN pg_type ON pg_type.oid = pg_enum.enumtypid
+        ORDER BY pg_enum.enumtypid, pg_enum.enumsortorder
+        `);
+    for (const row of enumsResult) {
+        const typname = SqlType.wrap(row["typname"]);
+        const enumlabel: string = row["enumlabel"];
+        const labels = enums.get(typname);
+        if (labels !== undefined) {
+            labels.push(enumlabel);
+        } else {
+            enums.set(typname, [enumlabel]);
+        }
+    }
+
+    const domains = new Map<SqlType, SqlType>();
+    const domainsResult = await client.unsafe(
+        `
+        SELECT
+            t.typname,
+            base.typname AS basetypname
+        FROM pg_type t
+        JOIN pg_type base ON base.oid = t.typbasetype
+        WHERE t.typtype = 'd'
+        `);
+    for (const row of domainsResult) {
+        const typname: string = row["typname"];
+        const basetypname: string = row["basetypname"];
+        domains.set(SqlType.wrap(typname), SqlType.wrap(basetypname));
+    }
+
+    // Only the composite types that were created with "CREATE TYPE" (and
+    // not the row types of tables)
+    const composites = new Map<SqlType, CompositeTypeField[]>();
+    const compositesResult = await client.unsafe(
+        `
+        SELECT
+            t.typname,
+            a.attname,
+            atttype.typname AS atttypname,
+            atttype.typnotnull AS atttypnotnull
+        FROM pg_type t
+        JOIN pg_class c ON c.oid = t.typrelid
+        JOIN pg_attribute a ON a.attrelid = c.oid
+        JOIN pg_type atttype ON atttype.oid = a.atttypid
+        WHERE t.typtype = 'c'
+        AND c.relkind = 'c'
+        AND a.attnum > 0
+        AND NOT a.attisdropped
+        ORDER BY t.oid, a.attnum
+        `);
+    for (const row of compositesResult) {
+        const typname = SqlType.wrap(row["typname"]);
+        const field: CompositeTypeField = {
+            name: row["attname"],
+            type: SqlType.wrap(row["atttypname"]),
+            notNull: row["atttypnotnull"]
+        };
+        const fields = composites.get(typname);
+        if (fields !== undefined) {
+            fields.push(field);
+        } else {
+            composites.set(typname, [field]);
+        }
+    }
+
+    return {
+        enums: enums,
+        domains: domains,
+        composites: composites
+    };
+}
+
 class TableColsLibrary {
     /**
      * After calling this method, you should also call `refreshViews`
      */
-    public async refreshTables(client: postgres.Sql): Promise<void> {
+    public async refreshTables(client: postgres.Sql, jsonColumnTypes: JsonColumnType[]): Promise<void> {
         this.tableLookupTable = new Map<string, boolean>();
 
         // <https://www.postgresql.org/docs/current/catalog-pg-class.html>
@@ -911,12 +1875,14 @@ class TableColsLibrary {
             SELECT
                 a.attrelid,
                 a.attnum,
-                a.attnotnull
+                a.attnotnull OR t.typnotnull AS attnotnull
             FROM
             pg_catalog.pg_attribute a,
-            pg_catalog.pg_class c
+            pg_catalog.pg_class c,
+            pg_catalog.pg_type t
             WHERE
             c.oid = a.attrelid
+            AND t.oid = a.atttypid
             AND a.attnum > 0
             AND c.relkind = 'r'
             `);
@@ -928,10 +1894,72 @@ class TableColsLibrary {
 
             this.tableLookupTable.set(`${attrelid}-${attnum}`, attnotnull);
         }
+
+        await this.refreshTableJsonShapes(client, jsonColumnTypes);
+        await this.refreshBuiltinFunctions(client);
+    }
+
+    private async refreshTableJsonShapes(client: postgres.Sql, jsonColumnTypes: JsonColumnType[]): Promise<void> {
+        this.tableJsonShapes = new Map<string, TypeScriptType>();
+
+        for (const jsonColumnType of jsonColumnTypes) {
+            const queryResult = await client.unsafe(
+                `
+                SELECT
+                    a.attrelid,
+                    a.attnum
+                FROM pg_catalog.pg_attribute a
+                JOIN pg_catalog.pg_class c ON c.oid = a.attrelid
+                JOIN pg_catalog.pg_namespace n ON n.oid = c.relnamespace
+                WHERE n.nspname = 'public'
+                AND c.relkind = 'r'
+                AND c.relname = $1
+                AND a.attname = $2
+                AND NOT a.attisdropped
+                `, [jsonColumnType.tableName, jsonColumnType.columnName]);
+
+            for (const row of queryResult) {
+                const attrelid: number = row["attrelid"];
+                const attnum: number = row["attnum"];
+
+                this.tableJsonShapes.set(`${attrelid}-${attnum}`, jsonColumnType.typeScriptTypeName);
+            }
+        }
+    }
+
+    private async refreshBuiltinFunctions(client: postgres.Sql): Promise<void> {
+        this.builtinFunctions = new Map<number, BuiltinFunction>();
+
+        const queryResult = await client.unsafe(
+            `
+            SELECT
+                p.oid,
+                p.proname,
+                p.proisstrict AND NOT p.proretset AS strict,
+                CASE WHEN l.lanname = 'internal' THEN p.prosrc END AS internal_name
+            FROM pg_catalog.pg_proc p
+            JOIN pg_catalog.pg_namespace n ON n.oid = p.pronamespace
+            JOIN pg_catalog.pg_language l ON l.oid = p.prolang
+            WHERE n.nspname = 'pg_catalog'
+            `);
+
+        for (const row of queryResult) {
+            const oid: number = row["oid"];
+            const proname: string = row["proname"];
+            const strict: boolean = row["strict"];
+            const internalName: string | null = row["internal_name"];
+
+            this.builtinFunctions.set(oid, {
+                name: proname,
+                strict: strict,
+                internalName: internalName
+            });
+        }
     }
 
     public async refreshViews(client: postgres.Sql): Promise<void> {
         this.viewLookupTable = new Map<string, boolean>();
+        this.viewJsonShapes = new Map<string, TypeScriptType>();
 
         // This query was taken from here and (slightly) adapted:
         // <https://github.com/PostgREST/postgrest/blob/5c75f0dcc295e6bd847af6d9703fad5b9c3d76c9/src/PostgREST/DbStructure.hs#L782>
@@ -1088,9 +2116,102 @@ class TableColsLibrary {
             const tableColumnNum: number = row["table_column_num"];
 
 
-            const isNotNull = this.isNotNull(tableOid, tableColumnNum);
-            this.viewLookupTable.set(`${viewOid}-${viewColumnNum}`, isNotNull);
+            this.viewLookupTable.set(`${viewOid}-${viewColumnNum}`, this.isNotNull(tableOid, tableColumnNum));
+        }
+
+        await this.analyzeViews(client);
+    }
+
+    /**
+     * Replaces the nullability of the view columns with the result of
+     * analyzing the query of each view (which also detects outer joins, and
+     * computed columns that are not NULL), and finds the types of the
+     * contents of the view columns that come from jsonb columns with a
+     * declared type
+     */
+    private async analyzeViews(client: postgres.Sql): Promise<void> {
+        // Views can only refer to views that were created before them, so
+        // by processing them in oid order, all of the views that a view uses
+        // have already been processed
+        const queryResult = await client.unsafe(
+            `
+            SELECT
+                c.oid AS view_oid,
+                r.ev_action::text AS ev_action
+            FROM pg_class c
+            JOIN pg_namespace n ON n.oid = c.relnamespace
+            JOIN pg_rewrite r ON r.ev_class = c.oid
+            WHERE c.relkind IN ('v', 'm') AND n.nspname = 'public'
+            ORDER BY c.oid
+            `);
+
+        for (const row of queryResult) {
+            const viewOid: number = row["view_oid"];
+            const evAction: string = row["ev_action"];
+
+            const viewQuery = parseQueryTree(evAction);
+            if (viewQuery !== null) {
+                this.resultColumnsNotNull(viewQuery).forEach((notNull, i) => {
+                    this.viewLookupTable.set(`${viewOid}-${i + 1}`, notNull);
+                });
+                this.resultColumnsJsonShapes(viewQuery).forEach((jsonShape, i) => {
+                    if (jsonShape !== null) {
+                        this.viewJsonShapes.set(`${viewOid}-${i + 1}`, jsonShape);
+                    }
+                });
+            }
+        }
+    }
+
+    /**
+     * @param query A query tree, as returned by `parseQueryTree`
+     *
+     * @returns An element for each result column of the query, which is true
+     * if the column can never be NULL
+     */
+    public resultColumnsNotNull(query: PgNode): boolean[] {
+        const analyzer = new NullabilityAnalyzer((relid, attnum) => this.isNotNull(relid, attnum), this.builtinFunctions);
+        return analyzer.resultColumnsNotNull(query);
+    }
+
+    /**
+     * @param query A query tree, as returned by `parseQueryTree`
+     *
+     * @returns An element for each result column of the query, which is the
+     * type of the contents of the column (if it is known)
+     */
+    public resultColumnsJsonShapes(query: PgNode): (TypeScriptType | null)[] {
+        const analyzer = new JsonShapeAnalyzer((relid, attnum) => this.jsonShape(relid, attnum), this.builtinFunctions);
+        return analyzer.resultColumnsJsonShapes(query);
+    }
+
+    /**
+     * @param query A query tree, as returned by `parseQueryTree`
+     *
+     * @returns The type of the contents of the jsonb columns that the query
+     * parameters are assigned to (or compared with), by parameter number
+     */
+    public paramJsonShapes(query: PgNode): Map<number, TypeScriptType> {
+        const analyzer = new JsonShapeAnalyzer((relid, attnum) => this.jsonShape(relid, attnum), this.builtinFunctions);
+        return analyzer.paramJsonShapes(query);
+    }
+
+    /**
+     * @returns The type of the contents of a jsonb table (or view) column, if
+     * it was declared in the "jsonColumnTypes" of the config file
+     */
+    public jsonShape(tableID: number, columnID: number): TypeScriptType | null {
+        const jsonShape1 = this.tableJsonShapes.get(`${tableID}-${columnID}`);
+        if (jsonShape1 !== undefined) {
+            return jsonShape1;
+        }
+
+        const jsonShape2 = this.viewJsonShapes.get(`${tableID}-${columnID}`);
+        if (jsonShape2 !== undefined) {
+            return jsonShape2;
         }
+
+        return null;
     }
 
     public isNotNull(tableID: number, columnID: number): boolean {
@@ -1109,37 +2230,115 @@ class TableColsLibrary {
 
     private tableLookupTable = new Map<string, boolean>();
     private viewLookupTable = new Map<string, boolean>();
+    private tableJsonShapes = new Map<string, TypeScriptType>();
+    private viewJsonShapes = new Map<string, TypeScriptType>();
+    private builtinFunctions = new Map<number, BuiltinFunction>();
+}
+
+/**
+ * @param parseTree A query tree in the `pg_node_tree` text format. May also
+ * be a list containing a single query (such as the action of a view's rule)
+ *
+ * @returns null if the query tree could not be parsed
+ */
+function parseQueryTree(parseTree: string): PgNode | null {
+    let tree;
+    try {
+        tree = parsePgNodeTree(parseTree);
+    } catch (err) {
+        if (err instanceof PgNodeTreeParseError) {
+            return null;
+        }
+        throw err;
+    }
+
+    if (Array.isArray(tree) && tree.length === 1) {
+        tree = tree[0];
+    }
+    if (!(tree instanceof PgNode) || tree.nodeType !== "QUERY") {
+        return null;
+    }
+
+    return tree;
 }
 
-export function resolveFieldDefs(tableColsLibrary: TableColsLibrary, pgTypes: Map<number, SqlType>, uniqueColumnTypes: Map<SqlType, TypeScriptType>, fields: postgres.ColumnList<string>): Map<string, [ColNullability, TypeScriptType]> {
+/**
+ * @param notNullColumns If not null, then has an element for each field,
+ * which is true if the field can never be NULL (as computed by
+ * `TableColsLibrary.resultColumnsNotNull`). Otherwise, only fields that come
+ * directly from a `NOT NULL` table column are considered to be not NULL
+ *
+ * @param jsonShapes If not null, then has an element for each field, which
+ * is the type of the contents of the field, if it is known (as computed by
+ * `TableColsLibrary.resultColumnsJsonShapes`). Otherwise, only fields that
+ * come directly from a table column are considered
+ */
+export function resolveFieldDefs(tableColsLibrary: TableColsLibrary, pgTypes: Map<number, SqlType>, userTypes: UserDefinedTypes, customSqlTypes: Map<SqlType, TypeScriptType>, uniqueColumnTypes: Map<SqlType, TypeScriptType>, fields: postgres.ColumnList<string>, notNullColumns: boolean[] | null, jsonShapes: (TypeScriptType | null)[] | null): Map<string, [ColNullability, TypeScriptType]> {
     const result = new Map<string, [ColNullability, TypeScriptType]>();
 
-    for (const field of fields) {
+    for (let i = 0; i < fields.length; ++i) {
+        const field = fields[i];
         const sqlType = psqlOidSqlType(pgTypes, field.type);
         let colNullability: ColNullability = ColNullability.OPT;
-        if (field.table > 0) {
+        if (notNullColumns !== null) {
+            if (notNullColumns[i]) {
+                colNullability = ColNullability.REQ;
+            }
+        } else if (field.table > 0) {
             const notNull = tableColsLibrary.isNotNull(field.table, field.number);
             if (notNull) {
                 colNullability = ColNullability.REQ;
             }
         }
-        const typeScriptType = sqlTypeToTypeScriptType(uniqueColumnTypes, sqlType);
+        let typeScriptType = sqlTypeToTypeScriptType(customSqlTypes, uniqueColumnTypes, userTypes, sqlType);
+        if (sqlType === SqlType.wrap("jsonb")) {
+            const jsonShape = jsonShapes !== null
+                ? jsonShapes[i]
+                : field.table > 0 ? tableColsLibrary.jsonShape(field.table, field.number) : null;
+            if (jsonShape !== null) {
+                typeScriptType = jsonTypeScriptType(typeScriptType, jsonShape);
+            }
+        }
         result.set(field.name, [colNullability, typeScriptType]);
     }
 
     return result;
 }
 
-function sqlTypeToTypeScriptType(uniqueColumnTypes: Map<SqlType, TypeScriptType>, sqlType: SqlType): TypeScriptType {
+/**
+ * @returns The TypeScript type of jsonb values, usually `DbJson`
+ */
+function jsonTypeScriptTypeName(customSqlTypes: Map<SqlType, TypeScriptType>, uniqueColumnTypes: Map<SqlType, TypeScriptType>, userTypes: UserDefinedTypes): TypeScriptType {
+    return sqlTypeToTypeScriptType(customSqlTypes, uniqueColumnTypes, userTypes, SqlType.wrap("jsonb"));
+}
+
+/**
+ * @param jsonTypeName The TypeScript type of jsonb values, usually `DbJson`
+ * @param jsonShape The type of the contents, for example: `ShipmentDetails`
+ *
+ * @returns For example: `DbJson<ShipmentDetails>`
+ */
+function jsonTypeScriptType(jsonTypeName: TypeScriptType, jsonShape: TypeScriptType): TypeScriptType {
+    return TypeScriptType.wrap(`${TypeScriptType.unwrap(jsonTypeName)}<${TypeScriptType.unwrap(jsonShape)}>`);
+}
+
+function sqlTypeToTypeScriptType(customSqlTypes: Map<SqlType, TypeScriptType>, uniqueColumnTypes: Map<SqlType, TypeScriptType>, userTypes: UserDefinedTypes, sqlType: SqlType): TypeScriptType {
     // "The array type typically has the same name as the base type with the
     // underscore character (_) prepended."
     //
     // See: <https://www.postgresql.org/docs/12/xtypes.html#id-1.8.3.16.13.1>
     if (SqlType.unwrap(sqlType).startsWith("_")) {
-        const elemType = sqlTypeToTypeScriptType(uniqueColumnTypes, SqlType.wrap(SqlType.unwrap(sqlType).substring(1)));
+        const elemType = sqlTypeToTypeScriptType(customSqlTypes, uniqueColumnTypes, userTypes, SqlType.wrap(SqlType.unwrap(sqlType).substring(1)));
         return TypeScriptType.wrap(`(${TypeScriptType.unwrap(elemType)} | null)[]`);
     }
 
+    // Custom mappings take precedence, so that they can also be used to
+    // override the builtin types
+    const customType = customSqlTypes.get(sqlType);
+    if (customType !== undefined) {
+        return customType;
+    }
+
     switch (SqlType.unwrap(sqlType)) {
         case "int2":
         case "int4":
@@ -1153,21 +2352,6 @@ function sqlTypeToTypeScriptType(uniqueColumnTypes: Map<SqlType, TypeScriptType>
         case "float4":
         case "float8":
             return TypeScriptType.wrap("number");
-
-        // TODO Temporary
-        case "jsonb":
-            return TypeScriptType.wrap("DbJson");
-        case "timestamp":
-            return TypeScriptType.wrap("LocalDateTime");
-        case "timestamptz":
-            return TypeScriptType.wrap("Instant");
-        case "date":
-            return TypeScriptType.wrap("LocalDate");
-        case "time":
-            return TypeScriptType.wrap("LocalTime");
-        case "uuid":
-            return TypeScriptType.wrap("UUID");
-
         default:
     }
 
@@ -1177,6 +2361,25 @@ function sqlTypeToTypeScriptType(uniqueColumnTypes: Map<SqlType, TypeScriptType>
         return uniqueType;
     }
 
+    const enumLabels = userTypes.enums.get(sqlType);
+    if (enumLabels !== undefined) {
+        return stringLiteralUnionType(enumLabels);
+    }
+
+    const domainBaseType = userTypes.domains.get(sqlType);
+    if (domainBaseType !== undefined) {
+        return sqlTypeToTypeScriptType(customSqlTypes, uniqueColumnTypes, userTypes, domainBaseType);
+    }
+
+    const compositeFields = userTypes.composites.get(sqlType);
+    if (compositeFields !== undefined) {
+        return objectTypeScriptType(compositeFields.map<[string, TypeScriptType, boolean]>(field => [
+            field.name,
+            sqlTypeToTypeScriptType(customSqlTypes, uniqueColumnTypes, userTypes, field.type),
+            field.notNull
+        ]));
+    }
+
     return TypeScriptType.wrap(`/* sqlTypeToTypeScriptType Unknown/Invalid type: "${sqlType}" */`);
 }
 
@@ -1191,10 +2394,18 @@ function colNullabilityStr(colNullability: ColNullability): string {
     }
 }
 
-function renderIdentifier(ident: string): string {
-    // TODO wrap key in double quotes if not a valid JavaScript identifier
-
-    return ident;
+/**
+ * Example results: `number`, `string | null`
+ */
+function renderSingleColType(colType: [ColNullability, TypeScriptType]): string {
+    switch (colType[0]) {
+        case ColNullability.REQ:
+            return TypeScriptType.unwrap(colType[1]);
+        case ColNullability.OPT:
+            return `${TypeScriptType.unwrap(colType[1])} | null`;
+        default:
+            return assertNever(colType[0]);
+    }
 }
 
 function renderColTypesType(colTypesFormat: ColTypesFormat, colTypes: Map<string, [ColNullability, TypeScriptType]>): string {
@@ -1244,7 +2455,25 @@ function stringifyColTypes(colTypes: Map<string, [ColNullability, TypeScriptType
     return result;
 }
 
-async function newConnect(adminUrl: string, name?: string): Promise<postgres.Sql> {
+/**
+ * @returns For each migration, a hash of all of the migrations up to (and
+ * including) it
+ */
+function migrationsPrefixHashes(migrations: [string, string][]): string[] {
+    const result: string[] = [];
+    let prevHash = "";
+    for (const [fileName, text] of migrations) {
+        const shasum = crypto.createHash("sha1");
+        shasum.update(prevHash);
+        shasum.update(fileName);
+        shasum.update(crypto.createHash("sha1").update(text).digest("hex"));
+        prevHash = shasum.digest("hex");
+        result.push(prevHash);
+    }
+    return result;
+}
+
+async function newConnect(adminUrl: string, name: string | undefined, noticeListener: NoticeListener): Promise<[postgres.Sql, string]> {
     const newDbName = name !== undefined
         ? name
         : await testDatabaseName();
@@ -1260,8 +2489,8 @@ async function newConnect(adminUrl: string, name?: string): Promise<postgres.Sql
         await closePg(adminConn1);
     }
 
-    const client = connectPg(connReplaceDbName(adminUrl, newDbName));
-    return client;
+    const client = connectPg(connReplaceDbName(adminUrl, newDbName), noticeListener);
+    return [client, newDbName];
 }
 
 function readFileAsync(fileName: string): Promise<string> {
@@ -0,0 +1,7 @@
+/**
+ * Removes the color codes that were added using "chalk", for output formats
+ * that are not meant to be displayed in a terminal
+ */
+export function stripAnsiEscapes(text: string): string {
+    return text.replace(/\u001b\[[0-9;]*m/g, "");
+}
@@ -0,0 +1,113 @@
+import { assertNever } from "assert-never";
+import * as path from "path";
+import { CheckedQuery } from "../DbConnector";
+import { ErrorDiagnostic, SrcSpan } from "../ErrorDiagnostic";
+import { stripAnsiEscapes } from "./ansi";
+import { codeFrameFormatter } from "./codeFrameFormatter";
+
+interface TestCase {
+    name: string;
+    errors: ErrorDiagnostic[];
+}
+
+/**
+ * Each checked view and query becomes a testcase. The testcases are grouped
+ * into a testsuite per source file.
+ *
+ * Errors that don't belong to any checked view or query (for example an
+ * error in a migration file, or a query that could not be resolved) are also
+ * reported, each one as its own failed testcase.
+ */
+export function junitFormatter(errorDiagnostics: ErrorDiagnostic[], checkedQueries: CheckedQuery[]): string {
+    const suites = new Map<string, TestCase[]>();
+
+    function addTestCase(fileName: string, testCase: TestCase): void {
+        const suiteName = path.relative(process.cwd(), fileName);
+        let suite = suites.get(suiteName);
+        if (suite === undefined) {
+            suite = [];
+            suites.set(suiteName, suite);
+        }
+        suite.push(testCase);
+    }
+
+    const reportedErrors = new Set<ErrorDiagnostic>();
+    for (const checkedQuery of checkedQueries) {
+        addTestCase(checkedQuery.fileName, {
+            name: `${checkedQuery.description} at line ${spanLine(checkedQuery.span)}`,
+            errors: checkedQuery.errors
+        });
+        checkedQuery.errors.forEach(e => reportedErrors.add(e));
+    }
+
+    for (const errorDiagnostic of errorDiagnostics) {
+        if (!reportedErrors.has(errorDiagnostic)) {
+            addTestCase(errorDiagnostic.fileName, {
+                name: `Error at line ${spanLine(errorDiagnostic.span)}`,
+                errors: [errorDiagnostic]
+            });
+        }
+    }
+
+    let totalTests = 0;
+    let totalFailures = 0;
+    let body = "";
+    suites.forEach((testCases, suiteName) => {
+        const failures = testCases.filter(t => t.errors.length > 0).length;
+        totalTests += testCases.length;
+        totalFailures += failures;
+
+        body += `  <testsuite name="${escapeXml(suiteName)}" tests="${testCases.length}" failures="${failures}">\n`;
+        for (const testCase of testCases) {
+            body += renderTestCase(suiteName, testCase);
+        }
+        body += "  </testsuite>\n";
+    });
+
+    return "<?xml version=\"1.0\" encoding=\"UTF-8\"?>\n" +
+        `<testsuites name="mfsqlchecker" tests="${totalTests}" failures="${totalFailures}">\n` +
+        body +
+        "</testsuites>";
+}
+
+function renderTestCase(suiteName: string, testCase: TestCase): string {
+    const open = `    <testcase classname="${escapeXml(suiteName)}" name="${escapeXml(testCase.name)}"`;
+
+    if (testCase.errors.length === 0) {
+        return open + "/>\n";
+    }
+
+    const message = testCase.errors[0].messages.length > 0
+        ? stripAnsiEscapes(testCase.errors[0].messages[0])
+        : "";
+
+    const text = stripAnsiEscapes(testCase.errors.map(codeFrameFormatter).join("\n"));
+
+    return open + ">\n" +
+        `      <failure message="${escapeXml(message)}">${escapeXml(text)}</failure>\n` +
+        "    </testcase>\n";
+}
+
+function spanLine(span: SrcSpan): number {
+    switch (span.type) {
+        case "LineAndColRange":
+            return span.startLine;
+        case "LineAndCol":
+            return span.line;
+        case "File":
+            return 1;
+        default:
+            return assertNever(span);
+    }
+}
+
+function escapeXml(text: string): string {
+    return text
+        .replace(/&/g, "&amp;")
+        .replace(/</g, "&lt;")
+        .replace(/>/g, "&gt;")
+        .replace(/"/g, "&quot;")
+        .replace(/'/g, "&apos;")
+        // Control characters are not allowed in XML 1.0
+        .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, "");
+}
@@ -0,0 +1,188 @@
+import { assertNever } from "assert-never";
+import * as path from "path";
+import { ErrorDiagnostic, SrcSpan } from "../ErrorDiagnostic";
+import { stripAnsiEscapes } from "./ansi";
+
+// Reference: <https://docs.oasis-open.org/sarif/sarif/v2.1.0/sarif-v2.1.0.html>
+
+const SARIF_SCHEMA = "https://json.schemastore.org/sarif-2.1.0.json";
+
+/**
+ * mfsqlchecker doesn't have separate rules for different kinds of errors, so
+ * all of the results are reported under this single rule
+ */
+const RULE_ID = "mfsqlchecker";
+
+interface SarifLog {
+    $schema: string;
+    version: "2.1.0";
+    runs: SarifRun[];
+}
+
+interface SarifRun {
+    tool: {
+        driver: {
+            name: string;
+            informationUri: string;
+            rules: SarifRule[];
+        };
+    };
+    results: SarifResult[];
+}
+
+interface SarifRule {
+    id: string;
+    shortDescription: SarifMessage;
+}
+
+interface SarifMessage {
+    text: string;
+}
+
+interface SarifResult {
+    ruleId: string;
+    level: "error";
+    message: SarifMessage;
+    locations: SarifLocation[];
+    fixes?: SarifFix[];
+}
+
+interface SarifLocation {
+    physicalLocation: SarifPhysicalLocation;
+}
+
+interface SarifPhysicalLocation {
+    artifactLocation: SarifArtifactLocation;
+    region?: SarifRegion;
+}
+
+interface SarifArtifactLocation {
+    uri: string;
+    uriBaseId: string;
+}
+
+/**
+ * Lines and columns are 1-based. `endColumn` is exclusive
+ */
+interface SarifRegion {
+    startLine: number;
+    startColumn: number;
+    endLine?: number;
+    endColumn?: number;
+}
+
+interface SarifFix {
+    description: SarifMessage;
+    artifactChanges: {
+        artifactLocation: SarifArtifactLocation;
+        replacements: {
+            deletedRegion: SarifRegion;
+            insertedContent: SarifMessage;
+        }[];
+    }[];
+}
+
+export function sarifFormatter(errorDiagnostics: ErrorDiagnostic[]): string {
+    const sarifLog: SarifLog = {
+        $schema: SARIF_SCHEMA,
+        version: "2.1.0",
+        runs: [{
+            tool: {
+                driver: {
+                    name: "mfsqlchecker",
+                    informationUri: "https://github.com/MedFlyt/mfsqlchecker",
+                    rules: [{
+                        id: RULE_ID,
+                        shortDescription: {
+                            text: "SQL query is invalid or its TypeScript types do not match the database"
+                        }
+                    }]
+                }
+            },
+            results: errorDiagnostics.map(formatSarifResult)
+        }]
+    };
+
+    return JSON.stringify(sarifLog, null, 2);
+}
+
+function formatSarifResult(errorDiagnostic: ErrorDiagnostic): SarifResult {
+    const artifactLocation: SarifArtifactLocation = {
+        uri: sarifUri(errorDiagnostic.fileName),
+        uriBaseId: "%SRCROOT%"
+    };
+
+    const region = sarifRegion(errorDiagnostic.span);
+
+    const physicalLocation: SarifPhysicalLocation = {
+        artifactLocation: artifactLocation
+    };
+    if (region !== null) {
+        physicalLocation.region = region;
+    }
+
+    let lines: string[] = errorDiagnostic.messages;
+    if (errorDiagnostic.epilogue !== null) {
+        lines = lines.concat(errorDiagnostic.epilogue);
+    }
+
+    const result: SarifResult = {
+        ruleId: RULE_ID,
+        level: "error",
+        message: {
+            text: stripAnsiEscapes(lines.join("\n"))
+        },
+        locations: [{
+            physicalLocation: physicalLocation
+        }]
+    };
+
+    // A fix can only be described if we know exactly which region it replaces
+    if (errorDiagnostic.quickFix !== null && errorDiagnostic.span.type === "LineAndColRange" && region !== null) {
+        result.fixes = [{
+            description: {
+                text: errorDiagnostic.quickFix.name
+            },
+            artifactChanges: [{
+                artifactLocation: artifactLocation,
+                replacements: [{
+                    deletedRegion: region,
+                    insertedContent: {
+                        text: errorDiagnostic.quickFix.replacementText
+                    }
+                }]
+            }]
+        }];
+    }
+
+    return result;
+}
+
+function sarifRegion(span: SrcSpan): SarifRegion | null {
+    switch (span.type) {
+        case "LineAndColRange":
+            return {
+                startLine: span.startLine,
+                startColumn: span.startCol,
+                endLine: span.endLine,
+                endColumn: span.endCol
+            };
+        case "LineAndCol":
+            return {
+                startLine: span.line,
+                startColumn: span.col
+            };
+        case "File":
+            return null;
+        default:
+            return assertNever(span);
+    }
+}
+
+/**
+ * SARIF URIs use forward slashes, and are relative to the "%SRCROOT%" base
+ * (the current directory)
+ */
+function sarifUri(fileName: string): string {
+    return path.relative(process.cwd(), fileName).split(path.sep).join("/");
+}
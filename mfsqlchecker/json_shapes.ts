@@ -0,0 +1,296 @@
+import { BuiltinFunction, listNode, resultTargetEntries, RTE_CTE, RTE_JOIN, RTE_RELATION, RTE_SUBQUERY } from "./nullability";
+import { PgNode, PgNodeValue } from "./pg_node_tree";
+import { TypeScriptType } from "./queries";
+
+// Reference: <https://github.com/postgres/postgres/blob/REL_15_STABLE/src/include/nodes/nodes.h>
+// Reference: <https://github.com/postgres/postgres/blob/REL_15_STABLE/src/include/nodes/primnodes.h>
+const CMD_UPDATE = 2;
+const CMD_INSERT = 3;
+
+const PARAM_EXTERN = 0;
+
+// Reference: <https://github.com/postgres/postgres/blob/REL_15_STABLE/src/include/catalog/pg_type.dat>
+const TEXTOID = 25;
+
+/**
+ * Guards against infinite recursion (for example in recursive CTEs)
+ */
+const MAX_DEPTH = 50;
+
+/**
+ * Infers the TypeScript type of the contents of the jsonb result columns of
+ * a query.
+ *
+ * A result column has a known type if it is a table column that was given a
+ * type in the "jsonColumnTypes" of the config file (possibly through views,
+ * subqueries, joins and CTEs), or if it accesses a field or an array element
+ * of such a column using the `->` operator.
+ *
+ * The type is a TypeScript type expression in terms of the declared type,
+ * for example: `InvoiceMetadata["lines"][number]["price"]`
+ */
+export class JsonShapeAnalyzer {
+    /**
+     * @param columnJsonShape Should return the type of the contents of table
+     * (or view) columns, or null if it is not known
+     *
+     * @param builtinFunctions All of the functions of the "pg_catalog"
+     * schema, by oid
+     */
+    constructor(columnJsonShape: (relid: number, attnum: number) => TypeScriptType | null, builtinFunctions: Map<number, BuiltinFunction>) {
+        this.columnJsonShape = columnJsonShape;
+        this.builtinFunctions = builtinFunctions;
+    }
+
+    private readonly columnJsonShape: (relid: number, attnum: number) => TypeScriptType | null;
+    private readonly builtinFunctions: Map<number, BuiltinFunction>;
+
+    private depth = 0;
+
+    /**
+     * @returns An element for each of the result columns of the query (in
+     * order), which is the type of the contents of the column, or null if it
+     * is not known
+     */
+    resultColumnsJsonShapes(query: PgNode): (TypeScriptType | null)[] {
+        return resultTargetEntries(query)
+            .filter(te => !te.bool("resjunk"))
+            .map(te => {
+                const resno = te.int("resno");
+                return resno !== null ? this.targetJsonShape([query], resno) : null;
+            });
+    }
+
+    /**
+     * @returns The type of the contents of the jsonb columns that query
+     * parameters are assigned to (by INSERT or UPDATE), or are compared with
+     * (using "=" or "<>"), by parameter number
+     */
+    paramJsonShapes(query: PgNode): Map<number, TypeScriptType> {
+        const result = new Map<number, TypeScriptType>();
+
+        const commandType = query.int("commandType");
+        const resultRelation = query.int("resultRelation");
+        if ((commandType === CMD_INSERT || commandType === CMD_UPDATE) && resultRelation !== null) {
+            const rte = listNode(query.list("rtable"), resultRelation - 1);
+            const relid = rte !== null ? rte.int("relid") : null;
+            if (relid !== null) {
+                for (const te of query.list("targetList")) {
+                    if (te instanceof PgNode) {
+                        const expr = te.node("expr");
+                        const paramId = expr !== null ? externParamId(expr) : null;
+                        const resno = te.int("resno");
+                        const shape = paramId !== null && resno !== null ? this.columnJsonShape(relid, resno) : null;
+                        if (paramId !== null && shape !== null) {
+                            result.set(paramId, shape);
+                        }
+                    }
+                }
+            }
+        }
+
+        const visit = (value: PgNodeValue): void => {
+            if (value instanceof PgNode) {
+                // Subqueries have their own range tables
+                if (value.nodeType === "QUERY") {
+                    return;
+                }
+
+                if (value.nodeType === "OPEXPR" && this.isBuiltinFunction(value.int("opfuncid"), ["jsonb_eq", "jsonb_ne"])) {
+                    const lhs = listNode(value.list("args"), 0);
+                    const rhs = listNode(value.list("args"), 1);
+                    if (lhs !== null && rhs !== null) {
+                        for (const [param, other] of [[lhs, rhs], [rhs, lhs]]) {
+                            const paramId = externParamId(param);
+                            const shape = paramId !== null ? this.exprJsonShape([query], other) : null;
+                            if (paramId !== null && shape !== null) {
+                                result.set(paramId, shape);
+                            }
+                        }
+                    }
+                }
+
+                value.fieldValues().forEach(visit);
+            } else if (Array.isArray(value)) {
+                value.forEach(visit);
+            }
+        };
+        visit(query.node("jointree"));
+
+        return result;
+    }
+
+    /**
+     * @param stack The query that contains the target entry, followed by all
+     * of its parent queries
+     */
+    private targetJsonShape(stack: PgNode[], resno: number): TypeScriptType | null {
+        if (this.depth >= MAX_DEPTH) {
+            return null;
+        }
+        this.depth++;
+        try {
+            const query = stack[0];
+
+            // The branches of a UNION/INTERSECT/EXCEPT may have different
+            // types
+            if (query.node("setOperations") !== null) {
+                return null;
+            }
+
+            const targetEntry = resultTargetEntries(query).find(te => te.int("resno") === resno);
+            if (targetEntry === undefined) {
+                return null;
+            }
+            const expr = targetEntry.node("expr");
+            return expr !== null ? this.exprJsonShape(stack, expr) : null;
+        } finally {
+            this.depth--;
+        }
+    }
+
+    private exprJsonShape(stack: PgNode[], expr: PgNode): TypeScriptType | null {
+        switch (expr.nodeType) {
+            case "VAR":
+                return this.varJsonShape(stack, expr);
+            case "FUNCEXPR":
+                return this.accessorJsonShape(stack, expr.int("funcid"), expr);
+            case "OPEXPR":
+                return this.accessorJsonShape(stack, expr.int("opfuncid"), expr);
+            default:
+                return null;
+        }
+    }
+
+    /**
+     * `value -> 'field'` and `value -> 3`
+     */
+    private accessorJsonShape(stack: PgNode[], funcid: number | null, expr: PgNode): TypeScriptType | null {
+        const func = funcid !== null ? this.builtinFunctions.get(funcid) : undefined;
+        if (func === undefined) {
+            return null;
+        }
+
+        const args = expr.list("args");
+        const value = listNode(args, 0);
+        const key = listNode(args, 1);
+        if (value === null || key === null) {
+            return null;
+        }
+
+        switch (func.name) {
+            case "jsonb_object_field": {
+                const fieldName = constText(key);
+                if (fieldName === null) {
+                    return null;
+                }
+                const shape = this.exprJsonShape(stack, value);
+                return shape !== null ? TypeScriptType.wrap(`${TypeScriptType.unwrap(shape)}[${JSON.stringify(fieldName)}]`) : null;
+            }
+            case "jsonb_array_element": {
+                const shape = this.exprJsonShape(stack, value);
+                return shape !== null ? TypeScriptType.wrap(`${TypeScriptType.unwrap(shape)}[number]`) : null;
+            }
+            default:
+                return null;
+        }
+    }
+
+    private isBuiltinFunction(funcid: number | null, names: string[]): boolean {
+        const func = funcid !== null ? this.builtinFunctions.get(funcid) : undefined;
+        return func !== undefined && names.indexOf(func.name) >= 0;
+    }
+
+    private varJsonShape(stack: PgNode[], varNode: PgNode): TypeScriptType | null {
+        const varlevelsup = varNode.int("varlevelsup");
+        const varno = varNode.int("varno");
+        const varattno = varNode.int("varattno");
+        if (varlevelsup === null || varno === null || varattno === null || varlevelsup >= stack.length || varattno <= 0) {
+            return null;
+        }
+
+        const varStack = stack.slice(varlevelsup);
+        const rte = listNode(varStack[0].list("rtable"), varno - 1);
+        if (rte === null) {
+            return null;
+        }
+
+        switch (rte.int("rtekind")) {
+            case RTE_RELATION: {
+                const relid = rte.int("relid");
+                return relid !== null ? this.columnJsonShape(relid, varattno) : null;
+            }
+            case RTE_SUBQUERY: {
+                const subquery = rte.node("subquery");
+                return subquery !== null ? this.targetJsonShape([subquery, ...varStack], varattno) : null;
+            }
+            case RTE_JOIN: {
+                const aliasVar = listNode(rte.list("joinaliasvars"), varattno - 1);
+                return aliasVar !== null ? this.exprJsonShape(varStack, aliasVar) : null;
+            }
+            case RTE_CTE: {
+                const ctename = rte.str("ctename");
+                const ctelevelsup = rte.int("ctelevelsup");
+                if (ctename === null || ctelevelsup === null || ctelevelsup >= varStack.length) {
+                    return null;
+                }
+                const cteStack = varStack.slice(ctelevelsup);
+                const cte = cteStack[0].list("cteList").find(c => c instanceof PgNode && c.str("ctename") === ctename);
+                if (!(cte instanceof PgNode)) {
+                    return null;
+                }
+                const ctequery = cte.node("ctequery");
+                return ctequery !== null ? this.targetJsonShape([ctequery, ...cteStack], varattno) : null;
+            }
+            default:
+                return null;
+        }
+    }
+}
+
+/**
+ * @returns The number of the parameter, if the node is a query parameter
+ * ("$1", "$2", etc...)
+ */
+function externParamId(node: PgNode): number | null {
+    if (node.nodeType !== "PARAM" || node.int("paramkind") !== PARAM_EXTERN) {
+        return null;
+    }
+    return node.int("paramid");
+}
+
+/**
+ * @returns The value of a `text` constant, or null if the node isn't one
+ */
+function constText(node: PgNode): string | null {
+    if (node.nodeType !== "CONST" || node.int("consttype") !== TEXTOID || node.bool("constisnull")) {
+        return null;
+    }
+
+    const bytes = node.datum("constvalue");
+    if (bytes === null || bytes.length < 1) {
+        return null;
+    }
+
+    // A `text` value starts with a varlena header, which is either a single
+    // byte (for short values), or 4 bytes (little-endian, as on all of the
+    // platforms that we support), that also contain the total length.
+    //
+    // Reference: <https://github.com/postgres/postgres/blob/REL_15_STABLE/src/include/postgres.h>
+    let start: number;
+    let length: number;
+    if (bytes[0] % 2 === 1) {
+        start = 1;
+        length = Math.floor(bytes[0] / 2);
+    } else if (bytes.length >= 4) {
+        start = 4;
+        length = Math.floor((bytes[0] + bytes[1] * 0x100 + bytes[2] * 0x10000 + bytes[3] * 0x1000000) / 4);
+    } else {
+        return null;
+    }
+    if (length < start || length > bytes.length) {
+        return null;
+    }
+
+    return Buffer.from(bytes.slice(start, length)).toString("utf8");
+}
@@ -0,0 +1,313 @@
+import { assertNever } from "assert-never";
+import * as path from "path";
+import * as ts from "typescript";
+import * as url from "url";
+import { CodeAction, CodeActionKind, Diagnostic, DiagnosticSeverity, Range, TextDocumentSyncKind, TextEdit } from "vscode-languageserver";
+import { Connection, createConnection, StreamMessageReader, StreamMessageWriter } from "vscode-languageserver/node"; // tslint:disable-line:no-submodule-imports
+import { CheckedQuery } from "./DbConnector";
+import { ErrorDiagnostic, QuickFix, SrcSpan } from "./ErrorDiagnostic";
+import { stripAnsiEscapes } from "./formatters/ansi";
+import { SqlCheckerEngine, TypeScriptWatcher, WatchReporter } from "./sqlchecker_engine";
+
+/**
+ * The quick fixes of a file, together with the contents of the file that was
+ * checked (the ranges of the fixes are only valid for these contents)
+ */
+interface FileQuickFixes {
+    fileContents: string;
+    fixes: [Range, QuickFix][];
+}
+
+/**
+ * Language Server Protocol front-end for `TypeScriptWatcher`.
+ *
+ * Communicates with the client over stdin/stdout. The contents of documents
+ * that are open in the editor are taken from the client (instead of from
+ * disk), so that unsaved changes are also checked.
+ */
+export class LspServer {
+    constructor(observer: SqlCheckerEngine) {
+        this.observer = observer;
+    }
+
+    private readonly observer: SqlCheckerEngine;
+
+    private connection: Connection;
+
+    /**
+     * Contents of the documents that are currently open in the editor, by
+     * file name
+     */
+    private openDocuments = new Map<string, string>();
+
+    /**
+     * The TypeScript watcher callbacks that are waiting for changes to each
+     * file, by file name
+     */
+    private fileWatchers = new Map<string, ts.FileWatcherCallback[]>();
+
+    /**
+     * The URIs that we have most recently published diagnostics for
+     */
+    private publishedUris = new Set<string>();
+
+    private quickFixes = new Map<string, FileQuickFixes>();
+
+    /**
+     * Runs the server until the client requests a shutdown.
+     *
+     * @returns A function that must be called once the caller has finished
+     * cleaning up. The client will be notified that the shutdown is complete
+     * only after it is called
+     */
+    run(projectDir: string): Promise<() => void> {
+        this.connection = createConnection(new StreamMessageReader(process.stdin), new StreamMessageWriter(process.stdout));
+
+        this.connection.onInitialize(() => {
+            return {
+                capabilities: {
+                    textDocumentSync: {
+                        openClose: true,
+                        change: TextDocumentSyncKind.Full
+                    },
+                    codeActionProvider: {
+                        codeActionKinds: [CodeActionKind.QuickFix]
+                    }
+                }
+            };
+        });
+
+        this.connection.onInitialized(() => {
+            const watcher = new TypeScriptWatcher(this.observer, this.watchReporter());
+
+            // We never write any files, but TypeScriptWatcher needs the
+            // emitted source maps in order to detect which files have changed
+            watcher.run(projectDir, this.system(), { noEmit: false, sourceMap: true });
+        });
+
+        this.connection.onDidOpenTextDocument(params => {
+            this.setDocument(uriToFileName(params.textDocument.uri), params.textDocument.text);
+        });
+
+        this.connection.onDidChangeTextDocument(params => {
+            // We use "full" sync, so the last change contains the entire text
+            if (params.contentChanges.length > 0) {
+                this.setDocument(uriToFileName(params.textDocument.uri), params.contentChanges[params.contentChanges.length - 1].text);
+            }
+        });
+
+        this.connection.onDidCloseTextDocument(params => {
+            const fileName = uriToFileName(params.textDocument.uri);
+            this.openDocuments.delete(fileName);
+            this.notifyFileChanged(fileName);
+        });
+
+        this.connection.onCodeAction(params => {
+            const fileQuickFixes = this.quickFixes.get(params.textDocument.uri);
+            if (fileQuickFixes === undefined) {
+                return [];
+            }
+
+            // The document has changed since it was checked, so the ranges
+            // are stale. The fixes of the next check will be offered instead
+            if (this.readFile(uriToFileName(params.textDocument.uri)) !== fileQuickFixes.fileContents) {
+                return [];
+            }
+
+            const result: CodeAction[] = [];
+            for (const [range, quickFix] of fileQuickFixes.fixes) {
+                if (rangesOverlap(range, params.range)) {
+                    result.push({
+                        title: quickFix.name,
+                        kind: CodeActionKind.QuickFix,
+                        diagnostics: params.context.diagnostics.filter(d => rangesOverlap(d.range, range)),
+                        edit: {
+                            changes: {
+                                [params.textDocument.uri]: [TextEdit.replace(range, quickFix.replacementText)]
+                            }
+                        }
+                    });
+                }
+            }
+            return result;
+        });
+
+        return new Promise<() => void>(resolve => {
+            this.connection.onShutdown(() => {
+                return new Promise<void>(shutdownComplete => {
+                    resolve(shutdownComplete);
+                });
+            });
+
+            this.connection.listen();
+        });
+    }
+
+    private watchReporter(): WatchReporter {
+        return {
+            checkStarted: () => {
+                // Nothing to do, the diagnostics will be published when the
+                // check is complete
+            },
+            checkCompleted: (errorDiagnostics: ErrorDiagnostic[], _checkedQueries: CheckedQuery[]) => {
+                this.publishDiagnostics(errorDiagnostics);
+            }
+        };
+    }
+
+    private publishDiagnostics(errorDiagnostics: ErrorDiagnostic[]): void {
+        const diagnostics = new Map<string, Diagnostic[]>();
+        this.quickFixes = new Map<string, FileQuickFixes>();
+
+        for (const errorDiagnostic of errorDiagnostics) {
+            const uri = url.pathToFileURL(errorDiagnostic.fileName).href;
+            const range = spanRange(errorDiagnostic.span);
+
+            let fileDiagnostics = diagnostics.get(uri);
+            if (fileDiagnostics === undefined) {
+                fileDiagnostics = [];
+                diagnostics.set(uri, fileDiagnostics);
+            }
+            fileDiagnostics.push(lspDiagnostic(errorDiagnostic, range));
+
+            if (errorDiagnostic.quickFix !== null) {
+                let fileQuickFixes = this.quickFixes.get(uri);
+                if (fileQuickFixes === undefined) {
+                    fileQuickFixes = {
+                        fileContents: errorDiagnostic.fileContents,
+                        fixes: []
+                    };
+                    this.quickFixes.set(uri, fileQuickFixes);
+                }
+                fileQuickFixes.fixes.push([range, errorDiagnostic.quickFix]);
+            }
+        }
+
+        // Clear the diagnostics of files that no longer have any errors
+        for (const uri of this.publishedUris) {
+            if (!diagnostics.has(uri)) {
+                this.connection.sendDiagnostics({ uri: uri, diagnostics: [] });
+            }
+        }
+
+        diagnostics.forEach((fileDiagnostics, uri) => {
+            this.connection.sendDiagnostics({ uri: uri, diagnostics: fileDiagnostics });
+        });
+
+        this.publishedUris = new Set<string>(diagnostics.keys());
+    }
+
+    private setDocument(fileName: string, text: string): void {
+        if (this.openDocuments.get(fileName) === text) {
+            return;
+        }
+        this.openDocuments.set(fileName, text);
+        this.notifyFileChanged(fileName);
+    }
+
+    private notifyFileChanged(fileName: string): void {
+        const callbacks = this.fileWatchers.get(fileName);
+        if (callbacks !== undefined) {
+            for (const callback of callbacks) {
+                callback(fileName, ts.FileWatcherEventKind.Changed, new Date());
+            }
+        }
+    }
+
+    /**
+     * Reads the document from memory if it is open, otherwise from disk
+     */
+    private readFile(fileName: string, encoding?: string): string | undefined {
+        const text = this.openDocuments.get(path.resolve(fileName));
+        if (text !== undefined) {
+            return text;
+        }
+        return ts.sys.readFile(fileName, encoding);
+    }
+
+    /**
+     * A `ts.System` that reads open documents from memory, and never writes
+     * anything to disk
+     */
+    private system(): ts.System {
+        return {
+            ...ts.sys,
+            readFile: (fileName: string, encoding?: string): string | undefined => {
+                return this.readFile(fileName, encoding);
+            },
+            fileExists: (fileName: string): boolean => {
+                return this.openDocuments.has(path.resolve(fileName)) || ts.sys.fileExists(fileName);
+            },
+            writeFile: () => {
+                // Nothing
+            },
+            watchFile: (fileName: string, callback: ts.FileWatcherCallback, pollingInterval?: number, options?: ts.WatchOptions): ts.FileWatcher => {
+                const key = path.resolve(fileName);
+                let callbacks = this.fileWatchers.get(key);
+                if (callbacks === undefined) {
+                    callbacks = [];
+                    this.fileWatchers.set(key, callbacks);
+                }
+                callbacks.push(callback);
+
+                const diskWatcher = ts.sys.watchFile !== undefined
+                    ? ts.sys.watchFile(fileName, callback, pollingInterval, options)
+                    : null;
+
+                return {
+                    close: () => {
+                        const cbs = this.fileWatchers.get(key);
+                        if (cbs !== undefined) {
+                            cbs.splice(cbs.indexOf(callback), 1);
+                        }
+                        if (diskWatcher !== null) {
+                            diskWatcher.close();
+                        }
+                    }
+                };
+            }
+        };
+    }
+}
+
+function uriToFileName(uri: string): string {
+    return path.resolve(url.fileURLToPath(uri));
+}
+
+function lspDiagnostic(errorDiagnostic: ErrorDiagnostic, range: Range): Diagnostic {
+    let lines: string[] = errorDiagnostic.messages;
+    if (errorDiagnostic.epilogue !== null) {
+        lines = lines.concat(errorDiagnostic.epilogue);
+    }
+
+    return {
+        range: range,
+        severity: DiagnosticSeverity.Error,
+        source: "mfsqlchecker",
+        message: stripAnsiEscapes(lines.join("\n"))
+    };
+}
+
+/**
+ * LSP positions are 0-based
+ */
+function spanRange(span: SrcSpan): Range {
+    switch (span.type) {
+        case "LineAndColRange":
+            return Range.create(span.startLine - 1, span.startCol - 1, span.endLine - 1, span.endCol - 1);
+        case "LineAndCol":
+            return Range.create(span.line - 1, span.col - 1, span.line - 1, span.col - 1);
+        case "File":
+            return Range.create(0, 0, 0, 0);
+        default:
+            return assertNever(span);
+    }
+}
+
+function rangesOverlap(a: Range, b: Range): boolean {
+    function before(lhs: Range["start"], rhs: Range["start"]): boolean {
+        return lhs.line < rhs.line || (lhs.line === rhs.line && lhs.character < rhs.character);
+    }
+
+    return !before(a.end, b.start) && !before(b.end, a.start);
+}
@@ -2,21 +2,26 @@ import "source-map-support/register"; // tslint:disable-line:no-import-side-effe
 
 import { assertNever } from "assert-never";
 import * as commander from "commander";
+import * as envPaths from "env-paths";
 import * as fs from "fs";
 import * as path from "path";
 import { loadConfigFile } from "./ConfigFile";
 import { DbConnector } from "./DbConnector";
-import { ErrorDiagnostic } from "./ErrorDiagnostic";
 import { codeFrameFormatter } from "./formatters/codeFrameFormatter";
 import { jsonFormatter } from "./formatters/jsonFormatter";
+import { junitFormatter } from "./formatters/junitFormatter";
+import { sarifFormatter } from "./formatters/sarifFormatter";
 import { vscodeFormatter } from "./formatters/vscodeFormatter";
 import { PostgresServer } from "./launch_postgres";
+import { LspServer } from "./lsp_server";
 import { parsePostgreSqlError } from "./pg_extra";
 import { isTestDatabaseCluster } from "./pg_test_db";
-import { SqlCheckerEngine, typeScriptSingleRunCheck, TypeScriptWatcher } from "./sqlchecker_engine";
+import { consoleWatchReporter, Formatter, SqlCheckerEngine, typeScriptSingleRunCheck, TypeScriptWatcher } from "./sqlchecker_engine";
 
 const DEFAULT_POSTGRES_VERSION = "15.4.0";
 
+const DEFAULT_CACHE_DIR = envPaths("mfsqlchecker").cache;
+
 interface PostgresConnection {
     readonly url: string;
     readonly databaseName: string | undefined;
@@ -25,16 +30,25 @@ interface PostgresConnection {
 enum Format {
     CODE_FRAME,
     JSON,
-    VSCODE
+    VSCODE,
+    SARIF,
+    JUNIT
 }
 
 interface Options {
     readonly watchMode: boolean;
+    readonly lspMode: boolean;
+    readonly fix: boolean;
     readonly projectDir: string;
     readonly migrationsDir: string | null;
     readonly configFile: string | null;
     readonly postgresConnection: PostgresConnection | null;
     readonly format: Format;
+
+    /**
+     * null if the persistent query cache is disabled
+     */
+    readonly cacheDir: string | null;
 }
 
 export class ParseError extends Error {
@@ -51,6 +65,10 @@ function parseFormat(value: string): Format {
             return Format.JSON;
         case "vscode":
             return Format.VSCODE;
+        case "sarif":
+            return Format.SARIF;
+        case "junit":
+            return Format.JUNIT;
         default:
             throw new ParseError(`invalid format: "${value}"`);
     }
@@ -61,14 +79,18 @@ function parseOptions(): Options {
     program.version("0.0.23");
 
     program
+        .usage("[options] [lsp]")
         .option("-w, --watch", "watch mode")
+        .option("--fix", "Apply all quick fixes to the source files")
         .option("-p, --project <dir>", "Project directory that should be checked")
         .option("-m, --migrations <dir>", "Migrations directory that should be used")
         .option("-c, --config <file>", "Project config file")
         .option("-u, --postgres-url <url>", "PostgreSQL connection string")
         .option("-d, --db-name <name>", "Name of database to use")
         .option("--postgres-version <version>", "Version of PostgreSQL server to test against")
-        .option("-t, --format <format>", "code-frame", parseFormat, Format.CODE_FRAME);
+        .option("-t, --format <format>", "code-frame", parseFormat, Format.CODE_FRAME)
+        .option("--cache-dir <dir>", "Directory where query results are cached between runs", DEFAULT_CACHE_DIR)
+        .option("--no-cache", "Don't cache query results between runs");
 
     try {
         program.parse(process.argv);
@@ -95,6 +117,26 @@ function parseOptions(): Options {
 
     required("project", "--project");
 
+    let lspMode = false;
+    for (const arg of program.args) {
+        if (arg === "lsp") {
+            lspMode = true;
+        } else {
+            console.error(`error: unknown command: ${arg}`);
+            process.exit(1);
+        }
+    }
+
+    if (lspMode && program.watch) {
+        console.error(`error: --watch argument can not be used together with lsp`);
+        process.exit(1);
+    }
+
+    if (program.fix && (lspMode || program.watch)) {
+        console.error(`error: --fix argument can not be used together with --watch or lsp`);
+        process.exit(1);
+    }
+
     if (program.dbName && !program.postgresUrl) {
         console.error(`error: --db-name argument can only be used together with --postgres-url`);
         process.exit(1);
@@ -112,16 +154,19 @@ function parseOptions(): Options {
 
     const options: Options = {
         watchMode: program.watch === true,
+        lspMode: lspMode,
+        fix: program.fix === true,
         projectDir: program.project,
         migrationsDir: program.migrations ? program.migrations : null,
         configFile: program.config ? program.config : null,
         postgresConnection: postgres,
-        format: program.format
+        format: program.format,
+        cacheDir: program.cache === false ? null : program.cacheDir
     };
     return options;
 }
 
-function formatFunction(format: Format): (errorDiagnostics: ErrorDiagnostic[]) => string {
+function formatFunction(format: Format): Formatter {
     switch (format) {
         case Format.CODE_FRAME:
             return e => e.map(codeFrameFormatter).join("\n");
@@ -129,6 +174,27 @@ function formatFunction(format: Format): (errorDiagnostics: ErrorDiagnostic[]) =
             return jsonFormatter;
         case Format.VSCODE:
             return e => e.map(vscodeFormatter).join("\n");
+        case Format.SARIF:
+            return sarifFormatter;
+        case Format.JUNIT:
+            return junitFormatter;
+        default:
+            return assertNever(format);
+    }
+}
+
+/**
+ * Formats whose output is parsed by other tools (rather than read by people)
+ */
+function isMachineReadableFormat(format: Format): boolean {
+    switch (format) {
+        case Format.JSON:
+        case Format.SARIF:
+        case Format.JUNIT:
+            return true;
+        case Format.CODE_FRAME:
+        case Format.VSCODE:
+            return false;
         default:
             return assertNever(format);
     }
@@ -137,6 +203,14 @@ function formatFunction(format: Format): (errorDiagnostics: ErrorDiagnostic[]) =
 async function main(): Promise<void> {
     const options = parseOptions();
 
+    if (options.lspMode || (!options.watchMode && isMachineReadableFormat(options.format))) {
+        // stdout is reserved for LSP messages (or for the output of a machine
+        // readable format), so all logging must go to stderr (which the LSP
+        // client usually shows in its output log)
+        console.log = console.error;
+        console.info = console.error;
+    }
+
     if (options.postgresConnection !== null && !isTestDatabaseCluster(options.postgresConnection.url)) {
         console.error("Database Cluster url is not a local connection or is invalid:\n" + options.postgresConnection.url);
         process.exit(1);
@@ -195,6 +269,10 @@ async function main(): Promise<void> {
 
     let pgServer: PostgresServer | null = null;
 
+    // In LSP mode, the client must only be told that the shutdown is
+    // complete after everything has been cleaned up
+    let shutdownComplete: (() => void) | null = null;
+
     let url: string;
     let dbName: string | undefined;
     if (options.postgresConnection !== null) {
@@ -224,7 +302,7 @@ async function main(): Promise<void> {
 
         let dbConnector: DbConnector;
         try {
-            dbConnector = await DbConnector.Connect(migrationsDir, url, dbName);
+            dbConnector = await DbConnector.Connect(migrationsDir, url, dbName, options.cacheDir, options.watchMode || options.lspMode);
         } catch (err) {
             const perr = parsePostgreSqlError(err);
             if (perr !== null) {
@@ -248,12 +326,15 @@ async function main(): Promise<void> {
         try {
             const formatter = formatFunction(options.format);
             const e = new SqlCheckerEngine(options.configFile, dbConnector);
-            if (options.watchMode) {
-                const w = new TypeScriptWatcher(e, formatter);
+            if (options.lspMode) {
+                const server = new LspServer(e);
+                shutdownComplete = await server.run(options.projectDir);
+            } else if (options.watchMode) {
+                const w = new TypeScriptWatcher(e, consoleWatchReporter(formatter));
                 w.run(options.projectDir);
                 await blockForever();
             } else {
-                const success = await typeScriptSingleRunCheck(options.projectDir, e, formatter);
+                const success = await typeScriptSingleRunCheck(options.projectDir, e, formatter, options.fix);
                 if (!success) {
                     process.exitCode = 1;
                 }
@@ -268,6 +349,9 @@ async function main(): Promise<void> {
         if (pgServer !== null) {
             await pgServer.close();
         }
+        if (shutdownComplete !== null) {
+            shutdownComplete();
+        }
     }
 }
 
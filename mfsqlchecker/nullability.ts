@@ -0,0 +1,462 @@
+import { PgNode, PgNodeValue } from "./pg_node_tree";
+
+// Values of the PostgreSQL enums that appear in query trees.
+//
+// Reference: <https://github.com/postgres/postgres/blob/REL_15_STABLE/src/include/nodes/nodes.h>
+// Reference: <https://github.com/postgres/postgres/blob/REL_15_STABLE/src/include/nodes/parsenodes.h>
+// Reference: <https://github.com/postgres/postgres/blob/REL_15_STABLE/src/include/nodes/primnodes.h>
+
+const CMD_SELECT = 1;
+
+const JOIN_LEFT = 1;
+const JOIN_FULL = 2;
+const JOIN_RIGHT = 3;
+
+export const RTE_RELATION = 0;
+export const RTE_SUBQUERY = 1;
+export const RTE_JOIN = 2;
+export const RTE_CTE = 6;
+
+const EXISTS_SUBLINK = 0;
+const ARRAY_SUBLINK = 6;
+
+/**
+ * Guards against infinite recursion (for example in recursive CTEs)
+ */
+const MAX_DEPTH = 50;
+
+/**
+ * Information about a function from the "pg_catalog" schema
+ */
+export interface BuiltinFunction {
+    name: string;
+
+    /**
+     * True if the function is `STRICT` (always returns NULL if any of its
+     * arguments is NULL) and doesn't return a set
+     */
+    strict: boolean;
+
+    /**
+     * For a function in the "internal" language: the name of the C function
+     * that implements it ("prosrc"), which (unlike `name`) is different for
+     * each overload that behaves differently, for example "lower" (of text)
+     * and "range_lower". null for functions in other languages (such as SQL)
+     */
+    internalName: string | null;
+}
+
+/**
+ * Strict builtin functions that may return NULL even when none of their
+ * arguments are NULL (by `BuiltinFunction.internalName`)
+ */
+const NULLABLE_STRICT_FUNCTIONS = new Set<string>([
+    // JSON accessors return NULL when the key/index/path doesn't exist
+    "json_object_field",
+    "json_object_field_text",
+    "json_array_element",
+    "json_array_element_text",
+    "json_extract_path",
+    "json_extract_path_text",
+    "jsonb_object_field",
+    "jsonb_object_field_text",
+    "jsonb_array_element",
+    "jsonb_array_element_text",
+    "jsonb_extract_path",
+    "jsonb_extract_path_text",
+    "jsonb_path_query_first",
+    "jsonb_path_query_first_tz",
+
+    // Return NULL for empty arrays
+    "array_length",
+    "array_lower",
+    "array_upper",
+    "array_ndims",
+    "array_dims",
+
+    // `lower` and `upper` of ranges and multiranges return NULL for empty
+    // ranges and for infinite bounds
+    "range_lower",
+    "range_upper",
+    "multirange_lower",
+    "multirange_upper",
+
+    // Return NULL when there is no match
+    "regexp_match",
+    "regexp_match_no_flags",
+    "regexp_substr",
+    "regexp_substr_no_start",
+    "regexp_substr_no_n",
+    "regexp_substr_no_flags",
+    "regexp_substr_no_subexpr",
+    "textregexsubstr",
+
+    // Return NULL when the object doesn't exist
+    "show_config_by_name_missing_ok",
+    "to_regclass",
+    "to_regcollation",
+    "to_regnamespace",
+    "to_regoper",
+    "to_regoperator",
+    "to_regproc",
+    "to_regprocedure",
+    "to_regrole",
+    "to_regtype"
+]);
+
+/**
+ * Strict builtin functions without arguments that never return NULL (by
+ * `BuiltinFunction.internalName`). Other functions without arguments may
+ * return NULL (such as `pg_current_xact_id_if_assigned()`), because being
+ * strict says nothing about them
+ */
+const NOT_NULL_NO_ARGS_FUNCTIONS = new Set<string>([
+    "now",
+    "statement_timestamp",
+    "clock_timestamp",
+    "timeofday",
+    "current_database",
+    "current_user",
+    "session_user",
+    "pg_backend_pid",
+    "pg_current_xact_id",
+    "pg_current_snapshot",
+    "pg_trigger_depth",
+    "gen_random_uuid",
+    "drandom",
+    "dpi",
+    "pgsql_version"
+]);
+
+/**
+ * Aggregate functions that never return NULL (even for zero rows)
+ */
+const NOT_NULL_AGGREGATES = new Set<string>([
+    "count"
+]);
+
+/**
+ * Window functions that never return NULL
+ */
+const NOT_NULL_WINDOW_FUNCTIONS = new Set<string>([
+    "count",
+    "row_number",
+    "rank",
+    "dense_rank",
+    "percent_rank",
+    "cume_dist"
+]);
+
+/**
+ * Infers which of the result columns of a query can never be NULL.
+ *
+ * A column taken from a table is not NULL if the table column is declared
+ * `NOT NULL`, unless it comes from the nullable side of an outer join (LEFT,
+ * RIGHT or FULL JOIN). A computed column is not NULL if it is an expression
+ * that is known to never evaluate to NULL (for example a strict builtin
+ * function whose arguments are all not NULL, `COUNT(*)`, `EXISTS(...)`, or a
+ * `COALESCE` with an argument that is not NULL).
+ *
+ * The analysis is performed on the query tree, as produced by the PostgreSQL
+ * parser (before views are expanded by the rewriter). It is conservative: if
+ * there is any doubt, a column is assumed to possibly be NULL.
+ */
+export class NullabilityAnalyzer {
+    /**
+     * @param isNotNullColumn Should return true for table (or view) columns
+     * that can never be NULL
+     *
+     * @param builtinFunctions All of the functions of the "pg_catalog"
+     * schema, by oid
+     */
+    constructor(isNotNullColumn: (relid: number, attnum: number) => boolean, builtinFunctions: Map<number, BuiltinFunction>) {
+        this.isNotNullColumn = isNotNullColumn;
+        this.builtinFunctions = builtinFunctions;
+    }
+
+    private readonly isNotNullColumn: (relid: number, attnum: number) => boolean;
+    private readonly builtinFunctions: Map<number, BuiltinFunction>;
+
+    private nullableRtIndexesCache = new Map<PgNode, Set<number>>();
+    private depth = 0;
+
+    /**
+     * @returns An element for each of the result columns of the query (in
+     * order), which is true if the column can never be NULL
+     */
+    resultColumnsNotNull(query: PgNode): boolean[] {
+        return resultTargetEntries(query)
+            .filter(te => !te.bool("resjunk"))
+            .map(te => {
+                const resno = te.int("resno");
+                return resno !== null && this.targetNotNull([query], resno);
+            });
+    }
+
+    /**
+     * @param stack The query that contains the target entry, followed by all
+     * of its parent queries
+     */
+    private targetNotNull(stack: PgNode[], resno: number): boolean {
+        if (this.depth >= MAX_DEPTH) {
+            return false;
+        }
+        this.depth++;
+        try {
+            const query = stack[0];
+
+            // The result of a UNION/INTERSECT/EXCEPT is not NULL only if the
+            // matching column of all of its branches is not NULL
+            const setOperations = query.node("setOperations");
+            if (setOperations !== null) {
+                const rtable = query.list("rtable");
+                return setOperationLeaves(setOperations).every(rtindex => {
+                    const rte = listNode(rtable, rtindex - 1);
+                    const subquery = rte !== null ? rte.node("subquery") : null;
+                    return subquery !== null && this.targetNotNull([subquery, ...stack], resno);
+                });
+            }
+
+            const targetEntry = resultTargetEntries(query).find(te => te.int("resno") === resno);
+            if (targetEntry === undefined) {
+                return false;
+            }
+            const expr = targetEntry.node("expr");
+            return expr !== null && this.exprNotNull(stack, expr);
+        } finally {
+            this.depth--;
+        }
+    }
+
+    private exprNotNull(stack: PgNode[], expr: PgNode): boolean {
+        switch (expr.nodeType) {
+            case "VAR":
+                return this.varNotNull(stack, expr);
+            case "CONST":
+                return !expr.bool("constisnull");
+            case "RELABELTYPE":
+            case "COERCEVIAIO":
+            case "COERCETODOMAIN":
+            case "COLLATEEXPR": {
+                const arg = expr.node("arg");
+                return arg !== null && this.exprNotNull(stack, arg);
+            }
+            case "FUNCEXPR":
+                return this.strictFunctionNotNull(stack, expr.int("funcid"), expr.list("args"));
+            case "OPEXPR":
+                return this.strictFunctionNotNull(stack, expr.int("opfuncid"), expr.list("args"));
+            case "BOOLEXPR":
+                // AND, OR, NOT
+                return this.allNotNull(stack, expr.list("args"));
+            case "NULLTEST":
+            case "BOOLEANTEST":
+            case "DISTINCTEXPR":
+            case "ARRAYEXPR":
+            case "ROWEXPR":
+            case "SQLVALUEFUNCTION":
+                return true;
+            case "COALESCEEXPR":
+            case "MINMAXEXPR":
+                // GREATEST and LEAST ignore NULL arguments
+                return expr.list("args").some(arg => arg instanceof PgNode && this.exprNotNull(stack, arg));
+            case "CASEEXPR": {
+                // When there is no ELSE, the parser adds a NULL constant
+                const defresult = expr.node("defresult");
+                return defresult !== null && this.exprNotNull(stack, defresult) &&
+                    expr.list("args").every(arg => {
+                        const result = arg instanceof PgNode ? arg.node("result") : null;
+                        return result !== null && this.exprNotNull(stack, result);
+                    });
+            }
+            case "SUBLINK": {
+                const subLinkType = expr.int("subLinkType");
+                return subLinkType === EXISTS_SUBLINK || subLinkType === ARRAY_SUBLINK;
+            }
+            case "AGGREF":
+                return this.isBuiltinFunction(expr.int("aggfnoid"), NOT_NULL_AGGREGATES);
+            case "WINDOWFUNC":
+                return this.isBuiltinFunction(expr.int("winfnoid"), NOT_NULL_WINDOW_FUNCTIONS);
+            default:
+                return false;
+        }
+    }
+
+    private strictFunctionNotNull(stack: PgNode[], funcid: number | null, args: PgNodeValue[]): boolean {
+        if (funcid === null) {
+            return false;
+        }
+        const func = this.builtinFunctions.get(funcid);
+
+        // Functions in other languages (such as SQL) may return NULL even if
+        // they are strict
+        if (func === undefined || !func.strict || func.internalName === null || NULLABLE_STRICT_FUNCTIONS.has(func.internalName)) {
+            return false;
+        }
+        if (args.length === 0) {
+            return NOT_NULL_NO_ARGS_FUNCTIONS.has(func.internalName);
+        }
+        return this.allNotNull(stack, args);
+    }
+
+    private isBuiltinFunction(funcid: number | null, names: Set<string>): boolean {
+        if (funcid === null) {
+            return false;
+        }
+        const func = this.builtinFunctions.get(funcid);
+        return func !== undefined && names.has(func.name);
+    }
+
+    private allNotNull(stack: PgNode[], args: PgNodeValue[]): boolean {
+        return args.every(arg => arg instanceof PgNode && this.exprNotNull(stack, arg));
+    }
+
+    private varNotNull(stack: PgNode[], varNode: PgNode): boolean {
+        const varlevelsup = varNode.int("varlevelsup");
+        const varno = varNode.int("varno");
+        const varattno = varNode.int("varattno");
+        if (varlevelsup === null || varno === null || varattno === null || varlevelsup >= stack.length || varattno <= 0) {
+            return false;
+        }
+
+        const varStack = stack.slice(varlevelsup);
+        const query = varStack[0];
+
+        if (this.nullableRtIndexes(query).has(varno)) {
+            return false;
+        }
+
+        // With GROUPING SETS, ROLLUP or CUBE, the grouped columns are NULL in
+        // the rows that don't group by them
+        if (query.list("groupingSets").length > 0) {
+            return false;
+        }
+
+        const rte = listNode(query.list("rtable"), varno - 1);
+        if (rte === null) {
+            return false;
+        }
+
+        switch (rte.int("rtekind")) {
+            case RTE_RELATION: {
+                const relid = rte.int("relid");
+                return relid !== null && this.isNotNullColumn(relid, varattno);
+            }
+            case RTE_SUBQUERY: {
+                const subquery = rte.node("subquery");
+                return subquery !== null && this.targetNotNull([subquery, ...varStack], varattno);
+            }
+            case RTE_JOIN: {
+                const aliasVar = listNode(rte.list("joinaliasvars"), varattno - 1);
+                return aliasVar !== null && this.exprNotNull(varStack, aliasVar);
+            }
+            case RTE_CTE: {
+                const ctename = rte.str("ctename");
+                const ctelevelsup = rte.int("ctelevelsup");
+                if (ctename === null || ctelevelsup === null || ctelevelsup >= varStack.length) {
+                    return false;
+                }
+                const cteStack = varStack.slice(ctelevelsup);
+                const cte = cteStack[0].list("cteList").find(c => c instanceof PgNode && c.str("ctename") === ctename);
+                if (!(cte instanceof PgNode)) {
+                    return false;
+                }
+                const ctequery = cte.node("ctequery");
+                return ctequery !== null && this.targetNotNull([ctequery, ...cteStack], varattno);
+            }
+            default:
+                return false;
+        }
+    }
+
+    /**
+     * @returns The range table indexes of all of the items in the FROM
+     * clause of the query that are on the nullable side of an outer join
+     */
+    private nullableRtIndexes(query: PgNode): Set<number> {
+        const cached = this.nullableRtIndexesCache.get(query);
+        if (cached !== undefined) {
+            return cached;
+        }
+
+        const result = new Set<number>();
+
+        function visit(node: PgNode, nullable: boolean): void {
+            switch (node.nodeType) {
+                case "RANGETBLREF": {
+                    const rtindex = node.int("rtindex");
+                    if (nullable && rtindex !== null) {
+                        result.add(rtindex);
+                    }
+                    break;
+                }
+                case "JOINEXPR": {
+                    const jointype = node.int("jointype");
+                    const rtindex = node.int("rtindex");
+                    if (nullable && rtindex !== null) {
+                        result.add(rtindex);
+                    }
+                    const larg = node.node("larg");
+                    if (larg !== null) {
+                        visit(larg, nullable || jointype === JOIN_RIGHT || jointype === JOIN_FULL);
+                    }
+                    const rarg = node.node("rarg");
+                    if (rarg !== null) {
+                        visit(rarg, nullable || jointype === JOIN_LEFT || jointype === JOIN_FULL);
+                    }
+                    break;
+                }
+                case "FROMEXPR":
+                    for (const item of node.list("fromlist")) {
+                        if (item instanceof PgNode) {
+                            visit(item, nullable);
+                        }
+                    }
+                    break;
+                default:
+            }
+        }
+
+        const jointree = query.node("jointree");
+        if (jointree !== null) {
+            visit(jointree, false);
+        }
+
+        this.nullableRtIndexesCache.set(query, result);
+        return result;
+    }
+}
+
+/**
+ * @returns The target entries that make up the result of the query. For
+ * INSERT/UPDATE/DELETE this is the RETURNING list
+ */
+export function resultTargetEntries(query: PgNode): PgNode[] {
+    const list = query.int("commandType") === CMD_SELECT
+        ? query.list("targetList")
+        : query.list("returningList");
+    return list.filter((te): te is PgNode => te instanceof PgNode && te.nodeType === "TARGETENTRY");
+}
+
+function setOperationLeaves(node: PgNode): number[] {
+    switch (node.nodeType) {
+        case "RANGETBLREF": {
+            const rtindex = node.int("rtindex");
+            return rtindex !== null ? [rtindex] : [];
+        }
+        case "SETOPERATIONSTMT": {
+            const larg = node.node("larg");
+            const rarg = node.node("rarg");
+            return (larg !== null ? setOperationLeaves(larg) : []).concat(rarg !== null ? setOperationLeaves(rarg) : []);
+        }
+        default:
+            return [];
+    }
+}
+
+export function listNode(list: PgNodeValue[], index: number): PgNode | null {
+    if (index < 0 || index >= list.length) {
+        return null;
+    }
+    const value = list[index];
+    return value instanceof PgNode ? value : null;
+}
@@ -0,0 +1,126 @@
+import * as crypto from "crypto";
+import * as fs from "fs";
+import * as makeDir from "make-dir";
+import * as path from "path";
+import { ColTypesFormat, CustomSqlTypeMapping, JsonColumnType, UniqueTableColumnType } from "./ConfigFile";
+
+let checkerBuildHashValue: string | null = null;
+
+/**
+ * Any change to the checker (including to the format of the cache file) may
+ * cause different answers to be computed for the same queries, so the cache
+ * is only reused by the same build of the checker.
+ *
+ * @returns A hash of all of the compiled files of the checker
+ */
+function checkerBuildHash(): string {
+    if (checkerBuildHashValue === null) {
+        const shasum = crypto.createHash("sha1");
+        for (const fileName of fs.readdirSync(__dirname).filter(f => f.endsWith(".js")).sort()) {
+            shasum.update(fileName);
+            shasum.update(fs.readFileSync(path.join(__dirname, fileName)));
+        }
+        checkerBuildHashValue = shasum.digest("hex");
+    }
+    return checkerBuildHashValue;
+}
+
+/**
+ * Everything (other than the query itself) that affects the answer that is
+ * computed for a query
+ */
+export interface SchemaKeyParams {
+    dbMigrationsHash: string;
+    colTypesFormat: ColTypesFormat;
+    strictDateTimeChecking: boolean;
+    customSqlTypeMappings: CustomSqlTypeMapping[];
+    uniqueTableColumnTypes: UniqueTableColumnType[];
+    jsonColumnTypes: JsonColumnType[];
+}
+
+export function calcSchemaKey(params: SchemaKeyParams): string {
+    const shasum = crypto.createHash("sha1");
+    shasum.update(JSON.stringify([
+        checkerBuildHash(),
+        params.dbMigrationsHash,
+        params.colTypesFormat,
+        params.strictDateTimeChecking,
+        params.customSqlTypeMappings,
+        params.uniqueTableColumnTypes,
+        params.jsonColumnTypes
+    ]));
+    return shasum.digest("hex");
+}
+
+export interface CacheContents {
+    queries: [string, unknown][];
+    inserts: [string, unknown][];
+}
+
+interface CacheFile extends CacheContents {
+    schemaKey: string;
+}
+
+/**
+ * Stores the answers of the queries on disk, so that they can be reused by
+ * later runs (as long as the `schemaKey` doesn't change).
+ *
+ * There is a separate cache file for each migrations directory.
+ */
+export class PersistentCache {
+    constructor(cacheDir: string, migrationsDir: string) {
+        const shasum = crypto.createHash("sha1");
+        shasum.update(path.resolve(migrationsDir));
+        this.fileName = path.join(cacheDir, `queries-${shasum.digest("hex")}.json`);
+    }
+
+    private readonly fileName: string;
+
+    /**
+     * @returns null if there is no cache file, or if it was written for a
+     * different `schemaKey`
+     */
+    async load(schemaKey: string): Promise<CacheContents | null> {
+        let text: string;
+        try {
+            text = await fs.promises.readFile(this.fileName, { encoding: "utf-8" });
+        } catch (err) {
+            if (err.code === "ENOENT") {
+                return null;
+            }
+            throw err;
+        }
+
+        let cacheFile: CacheFile;
+        try {
+            cacheFile = JSON.parse(text);
+        } catch (err) {
+            // A corrupt cache file is the same as a missing one
+            return null;
+        }
+
+        if (cacheFile.schemaKey !== schemaKey) {
+            return null;
+        }
+
+        return {
+            queries: cacheFile.queries,
+            inserts: cacheFile.inserts
+        };
+    }
+
+    async save(schemaKey: string, contents: CacheContents): Promise<void> {
+        const cacheFile: CacheFile = {
+            schemaKey: schemaKey,
+            queries: contents.queries,
+            inserts: contents.inserts
+        };
+
+        // Write to a temporary file and then rename it, so that a concurrent
+        // run never sees a partially written cache file
+        await makeDir(path.dirname(this.fileName));
+        const tmpFileName = `${this.fileName}.${process.pid}.tmp`;
+        await fs.promises.writeFile(tmpFileName, JSON.stringify(cacheFile), { encoding: "utf-8" });
+        await fs.promises.rename(tmpFileName, this.fileName);
+    }
+}
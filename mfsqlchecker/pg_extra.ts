@@ -1,15 +1,47 @@
 import * as crypto from "crypto";
 import * as postgres from "postgres";
+import { unwrapNodeDump } from "./pg_node_tree";
 
-export function connectPg(url: string): postgres.Sql {
+/**
+ * @param noticeListener If given, will receive all of the notices of the
+ * connection
+ */
+export function connectPg(url: string, noticeListener?: NoticeListener): postgres.Sql {
     return postgres(url, {
         max: 1,
-        onnotice: () => {
-            /* do nothing */
-        }
+        onnotice: noticeListener !== undefined
+            ? noticeListener.onNotice
+            : () => {
+                /* do nothing */
+            }
     });
 }
 
+/**
+ * Allows capturing the notices that the server sends while a specific
+ * statement is running
+ */
+export class NoticeListener {
+    private notices: postgres.Notice[] | null = null;
+
+    readonly onNotice = (notice: postgres.Notice): void => {
+        if (this.notices !== null) {
+            this.notices.push(notice);
+        }
+    }
+
+    async capture<A>(action: () => Promise<A>): Promise<[A, postgres.Notice[]]> {
+        const notices: postgres.Notice[] = [];
+        this.notices = notices;
+        try {
+            const result = await action();
+            return [result, notices];
+        } finally {
+            this.notices = null;
+        }
+    }
+}
+
 export function closePg(conn: postgres.Sql): Promise<void> {
     return conn.end();
 }
@@ -20,9 +52,44 @@ export function escapeIdentifier(str: string) {
     return '"' + str.replace(/"/g, '""') + '"';
 }
 
-export async function pgDescribeQuery(client: postgres.Sql, text: string): Promise<postgres.ColumnList<string> | null> {
+export interface QueryDescription {
+    columns: postgres.ColumnList<string> | null;
+
+    /**
+     * The oids of the types of the parameters ($1, $2, etc...)
+     */
+    paramTypes: number[];
+}
+
+export async function pgDescribeQuery(client: postgres.Sql, text: string): Promise<QueryDescription> {
     const result = await client.unsafe(text).describe();
-    return result.columns;
+    return {
+        columns: result.columns,
+        paramTypes: result.types
+    };
+}
+
+/**
+ * Same as `pgDescribeQuery`, but also returns the query tree that was
+ * produced by the parser (in the `pg_node_tree` text format, see
+ * "pg_node_tree.ts"), or null if it wasn't received.
+ *
+ * This changes some settings of the current transaction, so it must be
+ * called inside a savepoint that is then rolled back.
+ *
+ * @param noticeListener Must be the listener of `client`
+ */
+export async function pgDescribeQueryWithParseTree(client: postgres.Sql, noticeListener: NoticeListener, text: string): Promise<[QueryDescription, string | null]> {
+    // The server will send us the parse tree as a "LOG" message
+    await client.unsafe("SET LOCAL debug_print_parse = on; SET LOCAL debug_pretty_print = off; SET LOCAL client_min_messages = log");
+
+    const [description, notices] = await noticeListener.capture(() => pgDescribeQuery(client, text));
+
+    const parseTreeNotice = notices.find(n => n["message"] === "parse tree:");
+    const detail: string | undefined = parseTreeNotice !== undefined ? parseTreeNotice["detail"] : undefined;
+    const parseTree = detail !== undefined ? unwrapNodeDump(detail) : null;
+
+    return [description, parseTree];
 }
 
 /**
@@ -0,0 +1,322 @@
+/**
+ * Parser for the textual representation of PostgreSQL internal node trees
+ * (the format of the `pg_node_tree` type, as produced by the server's
+ * `nodeToString` function).
+ *
+ * Example: `{VAR :varno 1 :varattno 2 :vartype 25 :location 7}`
+ *
+ * Reference: <https://github.com/postgres/postgres/blob/REL_15_STABLE/src/backend/nodes/read.c>
+ */
+
+export type PgNodeValue = PgNode | PgNodeValue[] | string | null;
+
+export class PgNode {
+    constructor(nodeType: string, fields: Map<string, PgNodeValue>) {
+        this.nodeType = nodeType;
+        this.fields = fields;
+    }
+
+    /**
+     * For example: "QUERY", "RANGETBLENTRY", "VAR"
+     */
+    readonly nodeType: string;
+
+    private readonly fields: Map<string, PgNodeValue>;
+
+    /**
+     * @returns null if the field is missing or is not a node
+     */
+    node(field: string): PgNode | null {
+        const value = this.fields.get(field);
+        return value instanceof PgNode ? value : null;
+    }
+
+    /**
+     * @returns An empty list if the field is missing or is not a list
+     */
+    list(field: string): PgNodeValue[] {
+        const value = this.fields.get(field);
+        return Array.isArray(value) ? value : [];
+    }
+
+    /**
+     * @returns null if the field is missing or is not a number
+     */
+    int(field: string): number | null {
+        const value = this.fields.get(field);
+        if (typeof value !== "string" || !/^-?\d+$/.test(value)) {
+            return null;
+        }
+        return parseInt(value, 10);
+    }
+
+    bool(field: string): boolean {
+        return this.fields.get(field) === "true";
+    }
+
+    /**
+     * @returns null if the field is missing or is not a string
+     */
+    str(field: string): string | null {
+        const value = this.fields.get(field);
+        return typeof value === "string" ? value : null;
+    }
+
+    /**
+     * @returns The values of all of the fields of the node
+     */
+    fieldValues(): PgNodeValue[] {
+        return Array.from(this.fields.values());
+    }
+
+    /**
+     * @returns The bytes of a Datum field (such as "constvalue"), or null if
+     * the field is missing or is not a Datum
+     */
+    datum(field: string): number[] | null {
+        // A Datum field consists of its length, followed by its bytes
+        const value = this.fields.get(field);
+        if (!Array.isArray(value) || value.length !== 2 || !Array.isArray(value[1])) {
+            return null;
+        }
+        const bytes: number[] = [];
+        for (const b of value[1]) {
+            if (typeof b !== "string" || !/^-?\d+$/.test(b)) {
+                return null;
+            }
+            // The bytes are printed as signed chars
+            bytes.push((parseInt(b, 10) + 256) % 256);
+        }
+        return bytes;
+    }
+
+    /**
+     * @returns The smallest "location" field of this node and all of its
+     * descendants (this is the byte offset in the query text where the
+     * expression starts), or null if there is no known location
+     */
+    leftmostLocation(): number | null {
+        let result: number | null = null;
+
+        function visit(value: PgNodeValue): void {
+            if (value instanceof PgNode) {
+                const location = value.int("location");
+                if (location !== null && location >= 0 && (result === null || location < result)) {
+                    result = location;
+                }
+                value.fields.forEach(visit);
+            } else if (Array.isArray(value)) {
+                value.forEach(visit);
+            }
+        }
+
+        visit(this);
+        return result;
+    }
+}
+
+export class PgNodeTreeParseError extends Error {
+    constructor(public readonly message: string) {
+        super(message);
+    }
+}
+
+interface Token {
+    text: string;
+
+    /**
+     * True if the first character of the token was escaped with a backslash
+     * (and so the token can't be special syntax)
+     */
+    escapedStart: boolean;
+}
+
+/**
+ * @throws PgNodeTreeParseError
+ */
+export function parsePgNodeTree(text: string): PgNodeValue {
+    const tokens = tokenize(text);
+    const parser = new Parser(tokens);
+    const result = parser.parseValue();
+    if (!parser.atEnd()) {
+        throw new PgNodeTreeParseError("Unexpected trailing input");
+    }
+    return result;
+}
+
+/**
+ * When the server prints a node tree into its log (for example with the
+ * `debug_print_parse` option), it wraps the lines at 78 characters. This
+ * reverses the wrapping.
+ *
+ * The line breaks are placed where there was a space in the original text,
+ * except when a line doesn't contain any spaces, in which case the line break
+ * was inserted in the middle of a token.
+ *
+ * Reference: `format_node_dump` in <https://github.com/postgres/postgres/blob/REL_15_STABLE/src/backend/nodes/print.c>
+ */
+export function unwrapNodeDump(dump: string): string {
+    const LINELEN = 78;
+
+    const lines = dump.split("\n");
+    if (lines.length > 0 && lines[lines.length - 1] === "") {
+        lines.pop();
+    }
+
+    let result = "";
+    for (let i = 0; i < lines.length; ++i) {
+        result += lines[i];
+        if (i < lines.length - 1) {
+            if (lines[i].length < LINELEN || lines[i].indexOf(" ", 1) >= 0) {
+                result += " ";
+            }
+        }
+    }
+    return result;
+}
+
+function isWhitespace(c: string): boolean {
+    return c === " " || c === "\n" || c === "\t" || c === "\r";
+}
+
+function isDelimiter(c: string): boolean {
+    return c === "(" || c === ")" || c === "{" || c === "}";
+}
+
+function tokenize(text: string): Token[] {
+    const tokens: Token[] = [];
+    let i = 0;
+    while (i < text.length) {
+        const c = text[i];
+        if (isWhitespace(c)) {
+            i++;
+        } else if (isDelimiter(c)) {
+            tokens.push({ text: c, escapedStart: false });
+            i++;
+        } else {
+            let tokenText = "";
+            const escapedStart = c === "\\";
+            while (i < text.length && !isWhitespace(text[i]) && !isDelimiter(text[i])) {
+                if (text[i] === "\\" && i + 1 < text.length) {
+                    tokenText += text[i + 1];
+                    i += 2;
+                } else {
+                    tokenText += text[i];
+                    i++;
+                }
+            }
+            tokens.push({ text: tokenText, escapedStart: escapedStart });
+        }
+    }
+    return tokens;
+}
+
+class Parser {
+    constructor(tokens: Token[]) {
+        this.tokens = tokens;
+    }
+
+    private readonly tokens: Token[];
+    private pos = 0;
+
+    atEnd(): boolean {
+        return this.pos >= this.tokens.length;
+    }
+
+    parseValue(): PgNodeValue {
+        const token = this.next();
+        if (token.escapedStart) {
+            return token.text;
+        }
+
+        switch (token.text) {
+            case "{":
+                return this.parseNode();
+            case "(":
+                return this.parseList();
+            case "[":
+                return this.parseDatum();
+            case "<>":
+                return null;
+            default:
+        }
+
+        if (token.text.length >= 2 && token.text.startsWith("\"") && token.text.endsWith("\"")) {
+            return token.text.substring(1, token.text.length - 1);
+        }
+
+        return token.text;
+    }
+
+    private parseNode(): PgNode {
+        const nodeType = this.next().text;
+        const fields = new Map<string, PgNodeValue>();
+        for (;;) {
+            const token = this.next();
+            if (token.text === "}" && !token.escapedStart) {
+                return new PgNode(nodeType, fields);
+            }
+            if (!this.isFieldName(token)) {
+                throw new PgNodeTreeParseError(`Expected field name in node ${nodeType}, got: ${token.text}`);
+            }
+
+            // A field value is usually a single item, but some (such as
+            // "constvalue") consist of multiple items
+            const values: PgNodeValue[] = [];
+            while (!this.isFieldName(this.peek()) && !(this.peek().text === "}" && !this.peek().escapedStart)) {
+                values.push(this.parseValue());
+            }
+            fields.set(token.text.substring(1), values.length === 0 ? null : values.length === 1 ? values[0] : values);
+        }
+    }
+
+    private parseList(): PgNodeValue[] {
+        const result: PgNodeValue[] = [];
+
+        // Integer, OID and Bitmapset lists start with a marker
+        const first = this.peek();
+        if (!first.escapedStart && (first.text === "i" || first.text === "o" || first.text === "b" || first.text === "x")) {
+            this.next();
+        }
+
+        for (;;) {
+            const token = this.peek();
+            if (token.text === ")" && !token.escapedStart) {
+                this.next();
+                return result;
+            }
+            result.push(this.parseValue());
+        }
+    }
+
+    /**
+     * A Datum is printed as its bytes: `[ 1 0 0 0 0 0 0 0 ]`
+     */
+    private parseDatum(): string[] {
+        const result: string[] = [];
+        for (;;) {
+            const token = this.next();
+            if (token.text === "]" && !token.escapedStart) {
+                return result;
+            }
+            result.push(token.text);
+        }
+    }
+
+    private isFieldName(token: Token): boolean {
+        return !token.escapedStart && token.text.length > 1 && token.text.startsWith(":");
+    }
+
+    private peek(): Token {
+        if (this.pos >= this.tokens.length) {
+            throw new PgNodeTreeParseError("Unexpected end of input");
+        }
+        return this.tokens[this.pos];
+    }
+
+    private next(): Token {
+        const token = this.peek();
+        this.pos++;
+        return token;
+    }
+}
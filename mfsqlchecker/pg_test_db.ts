@@ -107,6 +107,13 @@ export async function createBlankDatabase(conn: postgres.Sql, dbName: string): P
     await conn.unsafe(`CREATE DATABASE ${dbName} WITH TEMPLATE template0`);
 }
 
+/**
+ * The template database must not have any open connections
+ */
+export async function createDatabaseFromTemplate(conn: postgres.Sql, dbName: string, templateDbName: string): Promise<void> {
+    await conn.unsafe(`CREATE DATABASE ${dbName} WITH TEMPLATE ${templateDbName}`);
+}
+
 export async function dropDatabase(conn: postgres.Sql, dbName: string): Promise<void> {
     await conn.unsafe(
         `
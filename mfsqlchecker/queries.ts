@@ -1,8 +1,9 @@
 import { assertNever } from "assert-never";
 import chalk from "chalk";
 import * as ts from "typescript";
+import { QueryMethod } from "./ConfigFile";
 import { Either } from "./either";
-import { ErrorDiagnostic, nodeErrorDiagnostic, SrcSpan } from "./ErrorDiagnostic";
+import { ErrorDiagnostic, nodeErrorDiagnostic, nodeSourceSpan, SrcSpan } from "./ErrorDiagnostic";
 import { escapeIdentifier } from "./pg_extra";
 import { QualifiedSqlViewName, resolveViewIdentifier, tryTypeSqlFrag } from "./views";
 
@@ -26,6 +27,8 @@ export interface QueryCallExpression {
      */
     readonly indentLevel: number;
 
+    readonly resultShape: ResultShape;
+
     readonly queryFragments: QueryCallExpression.QueryFragment[];
 }
 
@@ -39,6 +42,15 @@ export interface InsertManyExpression {
     readonly fileName: string;
     readonly fileContents: string;
 
+    /**
+     * "UPDATE" for calls to `update`, where the columns are the ones that
+     * are SET, and the epilogue contains the WHERE clause.
+     *
+     * "DELETE" for calls to `deleteWhere`, where the columns are the fields
+     * of the filter object, or the epilogue is the filter condition
+     */
+    readonly command: "INSERT" | "UPDATE" | "DELETE";
+
     /**
      * If `null` then we have a type parameter. Otherwise contains the name of
      * the method name that was called
@@ -59,13 +71,80 @@ export interface InsertManyExpression {
     readonly indentLevel: number;
 
     readonly insertColumns: Map<string, [TypeScriptType, boolean]>;
+
+    /**
+     * Only for calls to `upsert`
+     */
+    readonly onConflict: OnConflict | null;
+
     readonly epilougeFragments: QueryCallExpression.QueryFragment[];
 }
 
+/**
+ * The options of an `upsert` call
+ */
+export interface OnConflict {
+    readonly conflictColumns: string[];
+    readonly updateColumns: string[];
+}
+
+/**
+ * "SingleColumn" for `queryScalar` and `queryColumn`, whose type argument is
+ * the type of the value of the single result column (instead of a row type).
+ *
+ * "NoColumns" for `execute`, which has no type argument
+ */
+export type ResultShape = "Rows" | "SingleColumn" | "NoColumns";
+
+/**
+ * The type argument of a query that returns a single column
+ */
+export type SingleColType
+    = { readonly type: "Declared"; readonly colType: [ColNullability, TypeScriptType] }
+    | { readonly type: "Missing" }
+    | { readonly type: "Any" };
+
 export type ResolvedQuery
     = { type: "ResolvedSelect"; value: ResolvedSelect }
     | { type: "ResolvedInsert"; value: ResolvedInsert };
 
+/**
+ * A query parameter whose TypeScript type is a union of string literals (for
+ * example `"draft" | "sent"`). Such parameters are sent without a type cast
+ * (like the runtime library does), so that PostgreSQL infers their type, which
+ * may be an enum
+ */
+export interface StringLiteralUnionParam {
+    /**
+     * The number of the parameter: 1 for "$1", 2 for "$2", etc...
+     */
+    readonly paramNum: number;
+
+    /**
+     * Sorted
+     */
+    readonly labels: string[];
+
+    readonly span: SrcSpan;
+}
+
+/**
+ * A query parameter that is sent as `jsonb`
+ */
+export interface JsonParam {
+    /**
+     * The number of the parameter: 1 for "$1", 2 for "$2", etc...
+     */
+    readonly paramNum: number;
+
+    /**
+     * For example: `DbJson<ShipmentDetails>`
+     */
+    readonly type: TypeScriptType;
+
+    readonly span: SrcSpan;
+}
+
 export interface ResolvedSelect {
     readonly fileName: string;
     readonly fileContents: string;
@@ -74,6 +153,10 @@ export interface ResolvedSelect {
 
     readonly sourceMap: [number, number, number][];
 
+    readonly stringLiteralUnionParams: StringLiteralUnionParam[];
+
+    readonly jsonParams: JsonParam[];
+
     /**
      * `null` means that the typeArgument was explicitly declared as `any`
      * indicating that we are requested not to type-check the return column
@@ -81,6 +164,14 @@ export interface ResolvedSelect {
      */
     readonly colTypes: Map<string, [ColNullability, TypeScriptType]> | null;
 
+    readonly resultShape: ResultShape;
+
+    /**
+     * Only for queries that return a single column (in which case `colTypes`
+     * is `null`)
+     */
+    readonly singleColType: SingleColType | null;
+
     /**
      * If `null` then we have a type parameter. Otherwise contains the name of
      * the method name that was called
@@ -106,13 +197,20 @@ export interface ResolvedInsert {
     readonly fileName: string;
     readonly fileContents: string;
 
+    readonly command: "INSERT" | "UPDATE" | "DELETE";
+
     readonly tableName: string;
     readonly insertColumns: Map<string, [TypeScriptType, boolean]>;
+    readonly onConflict: OnConflict | null;
 
     readonly text: string;
 
     readonly sourceMap: [number, number, number][];
 
+    readonly stringLiteralUnionParams: StringLiteralUnionParam[];
+
+    readonly jsonParams: JsonParam[];
+
     /**
      * `null` means that the typeArgument was explicitly declared as `any`
      * indicating that we are requested not to type-check the return column
@@ -120,6 +218,12 @@ export interface ResolvedInsert {
      */
     readonly colTypes: Map<string, [ColNullability, TypeScriptType]> | null;
 
+    /**
+     * Inserts always return rows
+     */
+    readonly resultShape: "Rows";
+    readonly singleColType: null;
+
     /**
      * If `null` then we have a type parameter. Otherwise contains the name of
      * the method name that was called
@@ -255,8 +359,8 @@ function getIndentLevel(sourceFile: ts.SourceFile, node: ts.Node): number {
  * @param node Must be a call expression to the "query" function (from the sql
  * checker lib)
  */
-function buildQueryCallExpression(methodName: string, node: ts.CallExpression): Either<ErrorDiagnostic[], QueryCallExpression> {
-    if (node.arguments.length < 1) {
+function buildQueryCallExpression(methodName: string, queryArgument: number, resultShape: ResultShape, node: ts.CallExpression): Either<ErrorDiagnostic[], QueryCallExpression> {
+    if (node.arguments.length <= queryArgument) {
         // The TypeScript typechecker will catch this error, so we don't need
         // to emit our own error message
         return {
@@ -269,7 +373,7 @@ function buildQueryCallExpression(methodName: string, node: ts.CallExpression):
 
     const [typeArgument, typeArgumentSpan] = buildTypeArgumentData(sourceFile, node);
 
-    const sqlExp: ts.Expression = node.arguments[0];
+    const sqlExp: ts.Expression = node.arguments[queryArgument];
     const queryFragments = buildQueryFragments(sqlExp);
     switch (queryFragments.type) {
         case "Left":
@@ -287,6 +391,7 @@ function buildQueryCallExpression(methodName: string, node: ts.CallExpression):
                     typeArgument: typeArgument,
                     typeArgumentSpan: typeArgumentSpan,
                     indentLevel: getIndentLevel(sourceFile, node),
+                    resultShape: resultShape,
                     queryFragments: queryFragments.value
                 }
             };
@@ -295,8 +400,8 @@ function buildQueryCallExpression(methodName: string, node: ts.CallExpression):
     }
 }
 
-function buildInsertCallExpression(checker: ts.TypeChecker, methodName: string, node: ts.CallExpression): Either<ErrorDiagnostic[], InsertManyExpression> {
-    if (node.arguments.length < 2) {
+function buildInsertCallExpression(checker: ts.TypeChecker, methodName: string, tableNameArgument: number, valuesArgument: number, epilogueArgument: number | null, node: ts.CallExpression): Either<ErrorDiagnostic[], InsertManyExpression> {
+    if (node.arguments.length <= Math.max(tableNameArgument, valuesArgument)) {
         // The TypeScript typechecker will catch this error, so we don't need
         // to emit our own error message
         return {
@@ -305,7 +410,7 @@ function buildInsertCallExpression(checker: ts.TypeChecker, methodName: string,
         };
     }
 
-    const tableNameArg = node.arguments[0];
+    const tableNameArg = node.arguments[tableNameArgument];
     if (!(ts.isStringLiteral(tableNameArg) || ts.isNoSubstitutionTemplateLiteral(tableNameArg))) {
         return {
             type: "Left",
@@ -313,7 +418,7 @@ function buildInsertCallExpression(checker: ts.TypeChecker, methodName: string,
         };
     }
 
-    const valuesArg = node.arguments[1];
+    const valuesArg = node.arguments[valuesArgument];
     const valuesType = checker.getTypeAtLocation(valuesArg);
 
     if (getArrayType(valuesType) !== null) {
@@ -329,8 +434,8 @@ function buildInsertCallExpression(checker: ts.TypeChecker, methodName: string,
     const [typeArgument, typeArgumentSpan] = buildTypeArgumentData(sourceFile, node);
 
     let epilougeFragments: QueryCallExpression.QueryFragment[];
-    if (node.arguments.length >= 3) {
-        const epilougeSqlExp: ts.Expression = node.arguments[2];
+    if (epilogueArgument !== null && node.arguments.length > epilogueArgument) {
+        const epilougeSqlExp: ts.Expression = node.arguments[epilogueArgument];
         const queryFragments = buildQueryFragments(epilougeSqlExp);
         switch (queryFragments.type) {
             case "Left":
@@ -361,6 +466,7 @@ function buildInsertCallExpression(checker: ts.TypeChecker, methodName: string,
                 value: {
                     fileName: sourceFile.fileName,
                     fileContents: sourceFile.text,
+                    command: "INSERT",
                     queryMethodName: typeArgument === null ? methodName : null,
                     typeArgument: typeArgument,
                     typeArgumentSpan: typeArgumentSpan,
@@ -369,6 +475,7 @@ function buildInsertCallExpression(checker: ts.TypeChecker, methodName: string,
                     insertExprSpan: nodeLineAndColSpan(sourceFile, valuesArg),
                     indentLevel: getIndentLevel(sourceFile, node),
                     insertColumns: objectFieldTypes.value,
+                    onConflict: null,
                     epilougeFragments: epilougeFragments
                 }
             };
@@ -377,8 +484,8 @@ function buildInsertCallExpression(checker: ts.TypeChecker, methodName: string,
     }
 }
 
-function buildInsertManyCallExpression(checker: ts.TypeChecker, methodName: string, node: ts.CallExpression): Either<ErrorDiagnostic[], InsertManyExpression> {
-    if (node.arguments.length < 2) {
+function buildInsertManyCallExpression(checker: ts.TypeChecker, methodName: string, tableNameArgument: number, valuesArgument: number, epilogueArgument: number | null, node: ts.CallExpression): Either<ErrorDiagnostic[], InsertManyExpression> {
+    if (node.arguments.length <= Math.max(tableNameArgument, valuesArgument)) {
         // The TypeScript typechecker will catch this error, so we don't need
         // to emit our own error message
         return {
@@ -387,7 +494,7 @@ function buildInsertManyCallExpression(checker: ts.TypeChecker, methodName: stri
         };
     }
 
-    const tableNameArg = node.arguments[0];
+    const tableNameArg = node.arguments[tableNameArgument];
     if (!(ts.isStringLiteral(tableNameArg) || ts.isNoSubstitutionTemplateLiteral(tableNameArg))) {
         return {
             type: "Left",
@@ -395,7 +502,7 @@ function buildInsertManyCallExpression(checker: ts.TypeChecker, methodName: stri
         };
     }
 
-    const valuesArg = node.arguments[1];
+    const valuesArg = node.arguments[valuesArgument];
     const valuesType = checker.getTypeAtLocation(valuesArg);
 
     const valuesElemType = getArrayType(valuesType);
@@ -415,8 +522,8 @@ function buildInsertManyCallExpression(checker: ts.TypeChecker, methodName: stri
     const [typeArgument, typeArgumentSpan] = buildTypeArgumentData(sourceFile, node);
 
     let epilougeFragments: QueryCallExpression.QueryFragment[];
-    if (node.arguments.length >= 3) {
-        const epilougeSqlExp: ts.Expression = node.arguments[2];
+    if (epilogueArgument !== null && node.arguments.length > epilogueArgument) {
+        const epilougeSqlExp: ts.Expression = node.arguments[epilogueArgument];
         const queryFragments = buildQueryFragments(epilougeSqlExp);
         switch (queryFragments.type) {
             case "Left":
@@ -447,6 +554,7 @@ function buildInsertManyCallExpression(checker: ts.TypeChecker, methodName: stri
                 value: {
                     fileName: sourceFile.fileName,
                     fileContents: sourceFile.text,
+                    command: "INSERT",
                     queryMethodName: typeArgument === null ? methodName : null,
                     typeArgument: typeArgument,
                     typeArgumentSpan: typeArgumentSpan,
@@ -455,6 +563,7 @@ function buildInsertManyCallExpression(checker: ts.TypeChecker, methodName: stri
                     insertExprSpan: nodeLineAndColSpan(sourceFile, valuesArg),
                     indentLevel: getIndentLevel(sourceFile, node),
                     insertColumns: objectFieldTypes.value,
+                    onConflict: null,
                     epilougeFragments: epilougeFragments
                 }
             };
@@ -463,7 +572,352 @@ function buildInsertManyCallExpression(checker: ts.TypeChecker, methodName: stri
     }
 }
 
-export function findAllQueryCalls(typeScriptUniqueColumnTypes: Map<TypeScriptType, SqlType>, projectDir: string, checker: ts.TypeChecker, lookupViewName: (qualifiedSqlViewName: QualifiedSqlViewName) => string | undefined, sourceFile: ts.SourceFile): [ResolvedQuery[], ErrorDiagnostic[]] {
+function buildUpdateCallExpression(checker: ts.TypeChecker, methodName: string, node: ts.CallExpression): Either<ErrorDiagnostic[], InsertManyExpression> {
+    if (node.arguments.length < 3) {
+        // The TypeScript typechecker will catch this error, so we don't need
+        // to emit our own error message
+        return {
+            type: "Left",
+            value: []
+        };
+    }
+
+    const tableNameArg = node.arguments[0];
+    if (!(ts.isStringLiteral(tableNameArg) || ts.isNoSubstitutionTemplateLiteral(tableNameArg))) {
+        return {
+            type: "Left",
+            value: [nodeErrorDiagnostic(tableNameArg, "Argument must be a String Literal")]
+        };
+    }
+
+    const valueArg = node.arguments[1];
+    const valueType = checker.getTypeAtLocation(valueArg);
+
+    if (getArrayType(valueType) !== null) {
+        return {
+            type: "Left",
+            value: [nodeErrorDiagnostic(valueArg, "Argument must not be an array (must be a single object)")]
+        };
+    }
+
+    const sourceFile = node.getSourceFile();
+
+    const [typeArgument, typeArgumentSpan] = buildTypeArgumentData(sourceFile, node);
+
+    const queryFragments = buildQueryFragments(node.arguments[2]);
+    if (queryFragments.type === "Left") {
+        return {
+            type: "Left",
+            value: queryFragments.value
+        };
+    }
+
+    const objectFieldTypes = getObjectFieldTypes(checker, valueType);
+    switch (objectFieldTypes.type) {
+        case "Left":
+            return {
+                type: "Left",
+                value: [nodeErrorDiagnostic(valueArg, objectFieldTypes.value)]
+            };
+        case "Right":
+            if (objectFieldTypes.value.size === 0) {
+                return {
+                    type: "Left",
+                    value: [nodeErrorDiagnostic(valueArg, "Argument must have at least one field (the columns to update)")]
+                };
+            }
+            return {
+                type: "Right",
+                value: {
+                    fileName: sourceFile.fileName,
+                    fileContents: sourceFile.text,
+                    command: "UPDATE",
+                    queryMethodName: typeArgument === null ? methodName : null,
+                    typeArgument: typeArgument,
+                    typeArgumentSpan: typeArgumentSpan,
+                    tableName: tableNameArg.text,
+                    tableNameExprSpan: nodeLineAndColSpan(sourceFile, tableNameArg),
+                    insertExprSpan: nodeLineAndColSpan(sourceFile, valueArg),
+                    indentLevel: getIndentLevel(sourceFile, node),
+                    insertColumns: objectFieldTypes.value,
+                    onConflict: null,
+                    epilougeFragments: queryFragments.value
+                }
+            };
+        default:
+            return assertNever(objectFieldTypes);
+    }
+}
+
+function buildUpsertCallExpression(checker: ts.TypeChecker, methodName: string, node: ts.CallExpression): Either<ErrorDiagnostic[], InsertManyExpression> {
+    if (node.arguments.length < 3) {
+        // The TypeScript typechecker will catch this error, so we don't need
+        // to emit our own error message
+        return {
+            type: "Left",
+            value: []
+        };
+    }
+
+    const tableNameArg = node.arguments[0];
+    if (!(ts.isStringLiteral(tableNameArg) || ts.isNoSubstitutionTemplateLiteral(tableNameArg))) {
+        return {
+            type: "Left",
+            value: [nodeErrorDiagnostic(tableNameArg, "Argument must be a String Literal")]
+        };
+    }
+
+    const valueArg = node.arguments[1];
+    const valueType = checker.getTypeAtLocation(valueArg);
+
+    if (getArrayType(valueType) !== null) {
+        return {
+            type: "Left",
+            value: [nodeErrorDiagnostic(valueArg, "Argument must not be an array (must be a single object)")]
+        };
+    }
+
+    const onConflict = buildOnConflict(node.arguments[2]);
+    if (onConflict.type === "Left") {
+        return {
+            type: "Left",
+            value: onConflict.value
+        };
+    }
+
+    const sourceFile = node.getSourceFile();
+
+    const [typeArgument, typeArgumentSpan] = buildTypeArgumentData(sourceFile, node);
+
+    let epilougeFragments: QueryCallExpression.QueryFragment[];
+    if (node.arguments.length >= 4) {
+        const epilougeSqlExp: ts.Expression = node.arguments[3];
+        const queryFragments = buildQueryFragments(epilougeSqlExp);
+        switch (queryFragments.type) {
+            case "Left":
+                return {
+                    type: "Left",
+                    value: queryFragments.value
+                };
+            case "Right":
+                epilougeFragments = queryFragments.value;
+                break;
+            default:
+                return assertNever(queryFragments);
+        }
+    } else {
+        epilougeFragments = [];
+    }
+
+    const objectFieldTypes = getObjectFieldTypes(checker, valueType);
+    switch (objectFieldTypes.type) {
+        case "Left":
+            return {
+                type: "Left",
+                value: [nodeErrorDiagnostic(valueArg, objectFieldTypes.value)]
+            };
+        case "Right":
+            return {
+                type: "Right",
+                value: {
+                    fileName: sourceFile.fileName,
+                    fileContents: sourceFile.text,
+                    command: "INSERT",
+                    queryMethodName: typeArgument === null ? methodName : null,
+                    typeArgument: typeArgument,
+                    typeArgumentSpan: typeArgumentSpan,
+                    tableName: tableNameArg.text,
+                    tableNameExprSpan: nodeLineAndColSpan(sourceFile, tableNameArg),
+                    insertExprSpan: nodeLineAndColSpan(sourceFile, valueArg),
+                    indentLevel: getIndentLevel(sourceFile, node),
+                    insertColumns: objectFieldTypes.value,
+                    onConflict: onConflict.value,
+                    epilougeFragments: epilougeFragments
+                }
+            };
+        default:
+            return assertNever(objectFieldTypes);
+    }
+}
+
+function buildDeleteCallExpression(checker: ts.TypeChecker, methodName: string, node: ts.CallExpression): Either<ErrorDiagnostic[], InsertManyExpression> {
+    if (node.arguments.length < 2) {
+        // The TypeScript typechecker will catch this error, so we don't need
+        // to emit our own error message
+        return {
+            type: "Left",
+            value: []
+        };
+    }
+
+    const tableNameArg = node.arguments[0];
+    if (!(ts.isStringLiteral(tableNameArg) || ts.isNoSubstitutionTemplateLiteral(tableNameArg))) {
+        return {
+            type: "Left",
+            value: [nodeErrorDiagnostic(tableNameArg, "Argument must be a String Literal")]
+        };
+    }
+
+    const filterArg = node.arguments[1];
+
+    const sourceFile = node.getSourceFile();
+
+    const [typeArgument, typeArgumentSpan] = buildTypeArgumentData(sourceFile, node);
+
+    let filterColumns: Map<string, [TypeScriptType, boolean]>;
+    let epilougeFragments: QueryCallExpression.QueryFragment[];
+    if (ts.isTaggedTemplateExpression(filterArg)) {
+        const queryFragments = buildQueryFragments(filterArg);
+        switch (queryFragments.type) {
+            case "Left":
+                return {
+                    type: "Left",
+                    value: queryFragments.value
+                };
+            case "Right":
+                epilougeFragments = queryFragments.value;
+                break;
+            default:
+                return assertNever(queryFragments);
+        }
+        filterColumns = new Map<string, [TypeScriptType, boolean]>();
+    } else {
+        const filterType = checker.getTypeAtLocation(filterArg);
+        if (getArrayType(filterType) !== null) {
+            return {
+                type: "Left",
+                value: [nodeErrorDiagnostic(filterArg, "Argument must not be an array (must be a single object)")]
+            };
+        }
+
+        const objectFieldTypes = getObjectFieldTypes(checker, filterType);
+        switch (objectFieldTypes.type) {
+            case "Left":
+                return {
+                    type: "Left",
+                    value: [nodeErrorDiagnostic(filterArg, objectFieldTypes.value)]
+                };
+            case "Right":
+                if (objectFieldTypes.value.size === 0) {
+                    return {
+                        type: "Left",
+                        value: [nodeErrorDiagnostic(filterArg, "Argument must have at least one field (the columns to filter by)")]
+                    };
+                }
+                filterColumns = objectFieldTypes.value;
+                break;
+            default:
+                return assertNever(objectFieldTypes);
+        }
+        epilougeFragments = [];
+    }
+
+    return {
+        type: "Right",
+        value: {
+            fileName: sourceFile.fileName,
+            fileContents: sourceFile.text,
+            command: "DELETE",
+            queryMethodName: typeArgument === null ? methodName : null,
+            typeArgument: typeArgument,
+            typeArgumentSpan: typeArgumentSpan,
+            tableName: tableNameArg.text,
+            tableNameExprSpan: nodeLineAndColSpan(sourceFile, tableNameArg),
+            insertExprSpan: nodeLineAndColSpan(sourceFile, filterArg),
+            indentLevel: getIndentLevel(sourceFile, node),
+            insertColumns: filterColumns,
+            onConflict: null,
+            epilougeFragments: epilougeFragments
+        }
+    };
+}
+
+/**
+ * The options must be written as an object literal, so that the column names
+ * are known statically. For example:
+ *
+ *     { conflictColumns: ["email"], updateColumns: ["name", "salary"] }
+ */
+function buildOnConflict(optionsArg: ts.Expression): Either<ErrorDiagnostic[], OnConflict> {
+    if (!ts.isObjectLiteralExpression(optionsArg)) {
+        return {
+            type: "Left",
+            value: [nodeErrorDiagnostic(optionsArg, "Argument must be an Object Literal")]
+        };
+    }
+
+    let conflictColumns: string[] | null = null;
+    let updateColumns: string[] | null = null;
+    for (const prop of optionsArg.properties) {
+        if (!ts.isPropertyAssignment(prop) || !ts.isIdentifier(prop.name)) {
+            return {
+                type: "Left",
+                value: [nodeErrorDiagnostic(prop, "Must be a property assignment (of \"conflictColumns\" or \"updateColumns\")")]
+            };
+        }
+
+        const columns = stringLiteralArray(prop.initializer);
+        if (columns === null) {
+            return {
+                type: "Left",
+                value: [nodeErrorDiagnostic(prop.initializer, "Must be an Array Literal of String Literals")]
+            };
+        }
+
+        if (prop.name.text === "conflictColumns") {
+            if (columns.length === 0) {
+                return {
+                    type: "Left",
+                    value: [nodeErrorDiagnostic(prop.initializer, "Must contain at least one column")]
+                };
+            }
+            conflictColumns = columns;
+        } else if (prop.name.text === "updateColumns") {
+            updateColumns = columns;
+        }
+    }
+
+    if (conflictColumns === null || updateColumns === null) {
+        // The TypeScript typechecker will catch this error, so we don't need
+        // to emit our own error message
+        return {
+            type: "Left",
+            value: []
+        };
+    }
+
+    return {
+        type: "Right",
+        value: {
+            conflictColumns: conflictColumns,
+            updateColumns: updateColumns
+        }
+    };
+}
+
+function stringLiteralArray(node: ts.Expression): string[] | null {
+    if (!ts.isArrayLiteralExpression(node)) {
+        return null;
+    }
+
+    const result: string[] = [];
+    for (const elem of node.elements) {
+        if (!(ts.isStringLiteral(elem) || ts.isNoSubstitutionTemplateLiteral(elem))) {
+            return null;
+        }
+        result.push(elem.text);
+    }
+    return result;
+}
+
+/**
+ * @param queryMethods The methods whose calls are checked (in addition to
+ * `update`, `upsert` and `deleteWhere`)
+ *
+ * @param connectionTypeTags The calls are checked only if the object that
+ * the method is called on has one of these properties
+ */
+export function findAllQueryCalls(typeScriptCustomSqlTypes: Map<TypeScriptType, SqlType>, typeScriptUniqueColumnTypes: Map<TypeScriptType, SqlType>, queryMethods: QueryMethod[], connectionTypeTags: string[], projectDir: string, checker: ts.TypeChecker, lookupViewName: (qualifiedSqlViewName: QualifiedSqlViewName) => string | undefined, sourceFile: ts.SourceFile): [ResolvedQuery[], ErrorDiagnostic[]] {
     const resolvedQueries: ResolvedQuery[] = [];
     const errorDiagnostics: ErrorDiagnostic[] = [];
 
@@ -471,12 +925,18 @@ export function findAllQueryCalls(typeScriptUniqueColumnTypes: Map<TypeScriptTyp
         if (ts.isCallExpression(node)) {
             if (ts.isPropertyAccessExpression(node.expression)) {
                 if (ts.isIdentifier(node.expression.name)) {
-                    const queryMethodNames = ["query", "queryOne", "queryOneOrNone"];
-                    const insertMethodNames = ["insert", "insertMaybe"];
-                    if (queryMethodNames.indexOf(node.expression.name.text) >= 0) {
-                        const type = checker.getTypeAtLocation(node.expression.expression);
-                        if (type.getProperty("MfConnectionTypeTag") !== undefined) {
-                            const query = buildQueryCallExpression(node.expression.name.text, node);
+                    const methodName = node.expression.name.text;
+                    const queryMethod = queryMethods.find(m => m.methodName === methodName);
+                    const updateMethodNames = ["update"];
+                    const upsertMethodNames = ["upsert"];
+                    const deleteMethodNames = ["deleteWhere"];
+                    const isConnectionType = (expression: ts.Expression): boolean => {
+                        const type = checker.getTypeAtLocation(expression);
+                        return connectionTypeTags.some(tag => type.getProperty(tag) !== undefined);
+                    };
+                    if (queryMethod !== undefined && (queryMethod.kind === "select" || queryMethod.kind === "selectColumn" || queryMethod.kind === "execute")) {
+                        if (isConnectionType(node.expression.expression)) {
+                            const query = buildQueryCallExpression(methodName, queryMethod.queryArgument, selectResultShape(queryMethod.kind), node);
                             switch (query.type) {
                                 case "Left":
                                     for (const e of query.value) {
@@ -484,7 +944,7 @@ export function findAllQueryCalls(typeScriptUniqueColumnTypes: Map<TypeScriptTyp
                                     }
                                     break;
                                 case "Right":
-                                    const resolvedQuery = resolveQueryFragment(typeScriptUniqueColumnTypes, projectDir, checker, query.value, lookupViewName);
+                                    const resolvedQuery = resolveQueryFragment(typeScriptCustomSqlTypes, typeScriptUniqueColumnTypes, projectDir, checker, query.value, lookupViewName);
                                     switch (resolvedQuery.type) {
                                         case "Left":
                                             for (const e of resolvedQuery.value) {
@@ -505,10 +965,9 @@ export function findAllQueryCalls(typeScriptUniqueColumnTypes: Map<TypeScriptTyp
                                     assertNever(query);
                             }
                         }
-                    } else if (node.expression.name.text === "insertMany") {
-                        const type = checker.getTypeAtLocation(node.expression.expression);
-                        if (type.getProperty("MfConnectionTypeTag") !== undefined) {
-                            const query = buildInsertManyCallExpression(checker, node.expression.name.text, node);
+                    } else if (queryMethod !== undefined && queryMethod.kind === "insertMany") {
+                        if (isConnectionType(node.expression.expression)) {
+                            const query = buildInsertManyCallExpression(checker, methodName, queryMethod.tableNameArgument, queryMethod.valuesArgument, queryMethod.epilogueArgument, node);
                             switch (query.type) {
                                 case "Left":
                                     for (const e of query.value) {
@@ -516,7 +975,7 @@ export function findAllQueryCalls(typeScriptUniqueColumnTypes: Map<TypeScriptTyp
                                     }
                                     break;
                                 case "Right":
-                                    const resolvedQuery = resolveInsertMany(typeScriptUniqueColumnTypes, projectDir, checker, query.value, lookupViewName);
+                                    const resolvedQuery = resolveInsertMany(typeScriptCustomSqlTypes, typeScriptUniqueColumnTypes, projectDir, checker, query.value, lookupViewName);
                                     switch (resolvedQuery.type) {
                                         case "Left":
                                             for (const e of resolvedQuery.value) {
@@ -537,10 +996,15 @@ export function findAllQueryCalls(typeScriptUniqueColumnTypes: Map<TypeScriptTyp
                                     assertNever(query);
                             }
                         }
-                    } else if (insertMethodNames.indexOf(node.expression.name.text) >= 0) {
-                        const type = checker.getTypeAtLocation(node.expression.expression);
-                        if (type.getProperty("MfConnectionTypeTag") !== undefined) {
-                            const query = buildInsertCallExpression(checker, node.expression.name.text, node);
+                    } else if (queryMethod !== undefined || updateMethodNames.indexOf(methodName) >= 0 || upsertMethodNames.indexOf(methodName) >= 0 || deleteMethodNames.indexOf(methodName) >= 0) {
+                        if (isConnectionType(node.expression.expression)) {
+                            const query = queryMethod !== undefined && queryMethod.kind === "insert"
+                                ? buildInsertCallExpression(checker, methodName, queryMethod.tableNameArgument, queryMethod.valuesArgument, queryMethod.epilogueArgument, node)
+                                : updateMethodNames.indexOf(methodName) >= 0
+                                    ? buildUpdateCallExpression(checker, methodName, node)
+                                    : upsertMethodNames.indexOf(methodName) >= 0
+                                        ? buildUpsertCallExpression(checker, methodName, node)
+                                        : buildDeleteCallExpression(checker, methodName, node);
                             switch (query.type) {
                                 case "Left":
                                     for (const e of query.value) {
@@ -548,7 +1012,7 @@ export function findAllQueryCalls(typeScriptUniqueColumnTypes: Map<TypeScriptTyp
                                     }
                                     break;
                                 case "Right":
-                                    const resolvedQuery = resolveInsertMany(typeScriptUniqueColumnTypes, projectDir, checker, query.value, lookupViewName);
+                                    const resolvedQuery = resolveInsertMany(typeScriptCustomSqlTypes, typeScriptUniqueColumnTypes, projectDir, checker, query.value, lookupViewName);
                                     switch (resolvedQuery.type) {
                                         case "Left":
                                             for (const e of resolvedQuery.value) {
@@ -582,6 +1046,19 @@ export function findAllQueryCalls(typeScriptUniqueColumnTypes: Map<TypeScriptTyp
     return [resolvedQueries, errorDiagnostics];
 }
 
+function selectResultShape(kind: QueryMethod.Select["kind"]): ResultShape {
+    switch (kind) {
+        case "select":
+            return "Rows";
+        case "selectColumn":
+            return "SingleColumn";
+        case "execute":
+            return "NoColumns";
+        default:
+            return assertNever(kind);
+    }
+}
+
 function isTypeSqlView(type: ts.Type): boolean {
     // TODO This should be more robust: make sure that it is the "SqlView"
     // type defined in the sql library (and not some other user-defined type
@@ -681,7 +1158,10 @@ function getObjectFieldTypes(checker: ts.TypeChecker, type: ts.Type): Either<str
     const result = new Map<string, [TypeScriptType, boolean]>();
 
     const addResult = (fieldName: string, typ: ts.Type) => {
-        if ((typ.flags & ts.TypeFlags.StringLiteral) !== 0 || // tslint:disable-line:no-bitwise
+        const labels = stringLiteralUnionLabels(typ);
+        if (labels !== null) {
+            result.set(fieldName, [stringLiteralUnionType(labels), !isNullableType(typ)]);
+        } else if ((typ.flags & ts.TypeFlags.StringLiteral) !== 0 || // tslint:disable-line:no-bitwise
             isUnionOfStringLiterals(typ)) {
             result.set(fieldName, [TypeScriptType.wrap("string"), !isNullableType(typ)]);
         } else if ((typ.flags & ts.TypeFlags.BooleanLiteral) !== 0 || // tslint:disable-line:no-bitwise
@@ -736,6 +1216,146 @@ function isUnionOfStringLiterals(type: ts.Type): boolean {
     return true;
 }
 
+/**
+ * @returns The (sorted) labels if the type is a union of string literals,
+ * such as: "High" | "Low". Otherwise returns null.
+ *
+ * One of the union members is also allowed to be `null`: "High" | "Low" | null
+ */
+function stringLiteralUnionLabels(type: ts.Type): string[] | null {
+    if ((type.flags & ts.TypeFlags.Union) === 0) { // tslint:disable-line:no-bitwise
+        return null;
+    }
+
+    const labels: string[] = [];
+    const types: ReadonlyArray<ts.Type> = (<any>type).types;
+    for (const unionType of types) {
+        if ((unionType.flags & ts.TypeFlags.StringLiteral) !== 0) { // tslint:disable-line:no-bitwise
+            labels.push((<ts.StringLiteralType>unionType).value);
+        } else if ((unionType.flags & ts.TypeFlags.Null) === 0) { // tslint:disable-line:no-bitwise
+            return null;
+        }
+    }
+
+    if (labels.length === 0) {
+        return null;
+    }
+
+    labels.sort();
+    return labels;
+}
+
+/**
+ * Renders a union of string literals, for example: "High" | "Low"
+ *
+ * The labels are sorted, so that the same set of labels is always rendered
+ * the same way
+ */
+export function stringLiteralUnionType(labels: string[]): TypeScriptType {
+    return TypeScriptType.wrap([...labels].sort().map(label => JSON.stringify(label)).join(" | "));
+}
+
+/**
+ * Reverse of `stringLiteralUnionType`
+ *
+ * @returns null if the type is not a union of string literals
+ */
+export function parseStringLiteralUnionType(type: TypeScriptType): string[] | null {
+    const text = TypeScriptType.unwrap(type);
+    const labelRegex = /"(?:[^"\\]|\\.)*"/y;
+
+    const labels: string[] = [];
+    let pos = 0;
+    for (;;) {
+        labelRegex.lastIndex = pos;
+        const match = labelRegex.exec(text);
+        if (match === null) {
+            return null;
+        }
+        labels.push(JSON.parse(match[0]));
+        pos = labelRegex.lastIndex;
+
+        if (pos === text.length) {
+            return labels;
+        }
+        if (!text.startsWith(" | ", pos)) {
+            return null;
+        }
+        pos += 3;
+    }
+}
+
+/**
+ * Renders a property name of an object type, quoting it if it's not a valid
+ * identifier
+ */
+export function renderIdentifier(ident: string): string {
+    if (/^[A-Za-z_$][A-Za-z0-9_$]*$/.test(ident)) {
+        return ident;
+    }
+
+    return JSON.stringify(ident);
+}
+
+/**
+ * Renders an object type, for example: { street: string; city: string | null; }
+ *
+ * @param fields The name of each field, its type, and whether it is not null
+ */
+export function objectTypeScriptType(fields: [string, TypeScriptType, boolean][]): TypeScriptType {
+    const members = fields.map(([name, type, notNull]) => `${renderIdentifier(name)}: ${TypeScriptType.unwrap(type)}${notNull ? "" : " | null"};`);
+    return TypeScriptType.wrap(`{ ${members.join(" ")} }`);
+}
+
+/**
+ * The reverse of `objectTypeScriptType`
+ *
+ * @returns null if the type is not an object type
+ */
+export function parseObjectTypeScriptType(type: TypeScriptType): [string, TypeScriptType, boolean][] | null {
+    const text = TypeScriptType.unwrap(type);
+    if (!text.startsWith("{ ") || !text.endsWith(" }")) {
+        return null;
+    }
+
+    // Split the members on the top-level ";" characters, skipping over
+    // nested object types and quoted strings
+    const members: string[] = [];
+    let depth = 0;
+    let memberStart = 2;
+    for (let i = 2; i < text.length - 2; ++i) {
+        const c = text[i];
+        if (c === "\"") {
+            const quoteRegex = /"(?:[^"\\]|\\.)*"/y;
+            quoteRegex.lastIndex = i;
+            if (quoteRegex.exec(text) === null) {
+                return null;
+            }
+            i = quoteRegex.lastIndex - 1;
+        } else if (c === "{") {
+            depth++;
+        } else if (c === "}") {
+            depth--;
+        } else if (c === ";" && depth === 0) {
+            members.push(text.substring(memberStart, i).trim());
+            memberStart = i + 1;
+        }
+    }
+
+    const fields: [string, TypeScriptType, boolean][] = [];
+    for (const member of members) {
+        const match = /^("(?:[^"\\]|\\.)*"|[A-Za-z_$][A-Za-z0-9_$]*): (.*)$/.exec(member);
+        if (match === null) {
+            return null;
+        }
+        const name: string = match[1].startsWith("\"") ? JSON.parse(match[1]) : match[1];
+        const nullable = match[2].endsWith(" | null");
+        const fieldType = nullable ? match[2].substring(0, match[2].length - " | null".length) : match[2];
+        fields.push([name, TypeScriptType.wrap(fieldType), !nullable]);
+    }
+    return fields;
+}
+
 /**
  * Checks if the type is something like: "true | false".
  *
@@ -765,7 +1385,7 @@ function isUnionOfBooleanLiterals(type: ts.Type): boolean {
 /**
  * @returns Empty string means SQL "NULL" literal. `null` means an error
  */
-function typescriptTypeToSqlType(typeScriptUniqueColumnTypes: Map<TypeScriptType, SqlType>, type: ts.Type): SqlType | null {
+function typescriptTypeToSqlType(typeScriptCustomSqlTypes: Map<TypeScriptType, SqlType>, typeScriptUniqueColumnTypes: Map<TypeScriptType, SqlType>, type: ts.Type): SqlType | null {
     if (type.flags === ts.TypeFlags.Any) {
         // TODO Would be better to return some special value here, in order to
         // give a nicer error message (instead of getting the error from
@@ -797,7 +1417,7 @@ function typescriptTypeToSqlType(typeScriptUniqueColumnTypes: Map<TypeScriptType
 
     const arrayType = getArrayType(type);
     if (arrayType !== null) {
-        const name = typescriptTypeToSqlType(typeScriptUniqueColumnTypes, arrayType);
+        const name = typescriptTypeToSqlType(typeScriptCustomSqlTypes, typeScriptUniqueColumnTypes, arrayType);
         if (name === null) {
             return null;
         }
@@ -809,19 +1429,9 @@ function typescriptTypeToSqlType(typeScriptUniqueColumnTypes: Map<TypeScriptType
         return sqlType;
     }
 
-    // TODO Temporary
-    if (type.symbol.name === "DbJson") {
-        return SqlType.wrap("jsonb");
-    } else if (type.symbol.name === "Instant") {
-        return SqlType.wrap("timestamptz");
-    } else if (type.symbol.name === "LocalDateTime") {
-        return SqlType.wrap("timestamp");
-    } else if (type.symbol.name === "LocalDate") {
-        return SqlType.wrap("date");
-    } else if (type.symbol.name === "LocalTime") {
-        return SqlType.wrap("time");
-    } else if (type.symbol.name === "UUID") {
-        return SqlType.wrap("uuid");
+    const customSqlType = typeScriptCustomSqlTypes.get(TypeScriptType.wrap(type.symbol.name));
+    if (customSqlType !== undefined) {
+        return customSqlType;
     }
 
     return null;
@@ -841,10 +1451,87 @@ function readTypeScriptType(checker: ts.TypeChecker, type: ts.Type): TypeScriptT
         return TypeScriptType.wrap("string");
     }
 
+    const labels = stringLiteralUnionLabels(type);
+    if (labels !== null) {
+        return stringLiteralUnionType(labels);
+    }
+
+    // Type literal, such as: { street: string; city: string | null; }
+    if ((type.flags & ts.TypeFlags.Object) !== 0 && (<any>type).symbol !== undefined && type.symbol.name === "__type") { // tslint:disable-line:no-bitwise
+        const fields: [string, TypeScriptType, boolean][] = [];
+        for (const prop of checker.getPropertiesOfType(type)) {
+            if (prop.valueDeclaration === undefined) {
+                return null;
+            }
+            const propType = checker.getTypeOfSymbolAtLocation(prop, prop.valueDeclaration);
+            const fieldType = readTypeScriptType(checker, checker.getNonNullableType(propType));
+            if (fieldType === null) {
+                return null;
+            }
+            fields.push([prop.name, fieldType, !isNullableType(propType)]);
+        }
+        return objectTypeScriptType(fields);
+    }
+
     return TypeScriptType.wrap(checker.typeToString(type));
 }
 
 
+/**
+ * The type of a field of a jsonb column with a declared type is written as
+ * an indexed access type, for example: `DbJson<InvoiceMetadata["lines"][number]>`.
+ * TypeScript resolves indexed access types to the type of the field, so they
+ * are read from how they are written instead.
+ *
+ * For the same reason, a generic type that is written without type arguments
+ * (such as `DbJson`, when it is declared as `DbJson<T = unknown>`) is read as
+ * it is written, instead of as `DbJson<unknown>`.
+ *
+ * @returns null if the type is not of one of these forms
+ */
+function readJsonTypeNode(checker: ts.TypeChecker, typeNode: ts.TypeNode): TypeScriptType | null {
+    if (!ts.isTypeReferenceNode(typeNode)) {
+        return null;
+    }
+
+    if (typeNode.typeArguments === undefined) {
+        const type = checker.getTypeFromTypeNode(typeNode);
+        const typeArguments = (type.flags & ts.TypeFlags.Object) !== 0 && ((<ts.ObjectType>type).objectFlags & ts.ObjectFlags.Reference) !== 0 // tslint:disable-line:no-bitwise
+            ? checker.getTypeArguments(<ts.TypeReference>type)
+            : type.aliasTypeArguments;
+        return typeArguments !== undefined && typeArguments.length > 0 ? TypeScriptType.wrap(typeNode.typeName.getText()) : null;
+    }
+
+    if (typeNode.typeArguments.length !== 1 || !ts.isIndexedAccessTypeNode(typeNode.typeArguments[0])) {
+        return null;
+    }
+
+    function renderShape(node: ts.TypeNode): string | null {
+        if (ts.isTypeReferenceNode(node) && node.typeArguments === undefined) {
+            return node.typeName.getText();
+        } else if (ts.isIndexedAccessTypeNode(node)) {
+            const objectType = renderShape(node.objectType);
+            if (objectType === null) {
+                return null;
+            } else if (ts.isLiteralTypeNode(node.indexType) && ts.isStringLiteral(node.indexType.literal)) {
+                return `${objectType}[${JSON.stringify(node.indexType.literal.text)}]`;
+            } else if (node.indexType.kind === ts.SyntaxKind.NumberKeyword) {
+                return `${objectType}[number]`;
+            } else {
+                return null;
+            }
+        } else {
+            return null;
+        }
+    }
+
+    const shape = renderShape(typeNode.typeArguments[0]);
+    if (shape === null) {
+        return null;
+    }
+    return TypeScriptType.wrap(`${typeNode.typeName.getText()}<${shape}>`);
+}
+
 function getColNullability(memberType: ts.TypeReferenceNode): ColNullability | null {
     // This just does a crude string comparison on the result of "getText()". It
     // is not robust because even if the name is "Req" (or "Opt") it does not
@@ -893,8 +1580,8 @@ function typeLiteralNodeToColTypes(checker: ts.TypeChecker, typeLiteral: ts.Type
             } else {
                 if (!ts.isTypeReferenceNode(member.type)) {
                     errorReporter(nodeErrorDiagnostic(member, "Property type is not a TypeReferenceNode"));
-                } else if (!ts.isIdentifier(member.name)) {
-                    errorReporter(nodeErrorDiagnostic(member, "Property name is not an identifier"));
+                } else if (!ts.isIdentifier(member.name) && !ts.isStringLiteral(member.name)) {
+                    errorReporter(nodeErrorDiagnostic(member, "Property name is not an identifier or a string literal"));
                 } else {
                     const colTypes = getTypeMemberColTypes(checker, member, member.name.text, member.type);
                     switch (colTypes.type) {
@@ -958,7 +1645,8 @@ function getTypeMemberColTypes(checker: ts.TypeChecker, node: ts.Node, propName:
         } else {
             const typeArgument = memberType.typeArguments[0];
             const typeArgumentType = checker.getTypeFromTypeNode(typeArgument);
-            const type = readTypeScriptType(checker, typeArgumentType);
+            const jsonType = readJsonTypeNode(checker, typeArgument);
+            const type = jsonType !== null ? jsonType : readTypeScriptType(checker, typeArgumentType);
             if (type === null) {
                 return {
                     type: "Left",
@@ -974,11 +1662,48 @@ function getTypeMemberColTypes(checker: ts.TypeChecker, node: ts.Node, propName:
     }
 }
 
-function resolveQueryFragment(typeScriptUniqueColumnTypes: Map<TypeScriptType, SqlType>, projectDir: string, checker: ts.TypeChecker, query: QueryCallExpression, lookupViewName: (qualifiedSqlViewName: QualifiedSqlViewName) => string | undefined): Either<ErrorDiagnostic[], ResolvedSelect> {
+/**
+ * The type argument is the type of the values of the column, which is
+ * nullable if it includes `null`, for example: `string | null`
+ */
+function typescriptTypeToSingleColType(checker: ts.TypeChecker, typeNode: ts.TypeNode, errorReporter: (error: ErrorDiagnostic) => void): SingleColType {
+    const typ = checker.getTypeFromTypeNode(typeNode);
+    if (typ.flags === ts.TypeFlags.Any) {
+        return { type: "Any" };
+    }
+
+    const colNullability = isNullableType(typ) ? ColNullability.OPT : ColNullability.REQ;
+
+    // `DbJson<T>` types are read as written, so the `null` must be removed
+    // from the type node itself
+    let valueTypeNode = typeNode;
+    if (ts.isUnionTypeNode(typeNode)) {
+        const nonNullTypeNodes = typeNode.types.filter(t => !(ts.isLiteralTypeNode(t) && t.literal.kind === ts.SyntaxKind.NullKeyword));
+        if (nonNullTypeNodes.length === 1) {
+            valueTypeNode = nonNullTypeNodes[0];
+        }
+    }
+
+    const jsonType = readJsonTypeNode(checker, valueTypeNode);
+    const type = jsonType !== null ? jsonType : readTypeScriptType(checker, nonNullType(typ));
+    if (type === null) {
+        errorReporter(nodeErrorDiagnostic(typeNode, `Invalid type argument: ${checker.typeToString(typ)}`));
+        return { type: "Any" };
+    }
+
+    return {
+        type: "Declared",
+        colType: [colNullability, type]
+    };
+}
+
+function resolveQueryFragment(typeScriptCustomSqlTypes: Map<TypeScriptType, SqlType>, typeScriptUniqueColumnTypes: Map<TypeScriptType, SqlType>, projectDir: string, checker: ts.TypeChecker, query: QueryCallExpression, lookupViewName: (qualifiedSqlViewName: QualifiedSqlViewName) => string | undefined): Either<ErrorDiagnostic[], ResolvedSelect> {
     const errors: ErrorDiagnostic[] = [];
 
     let text = "";
     const sourceMap: [number, number, number][] = [];
+    const stringLiteralUnionParams: StringLiteralUnionParam[] = [];
+    const jsonParams: JsonParam[] = [];
     let numParams = 0;
     for (const frag of query.queryFragments) {
         switch (frag.type) {
@@ -989,6 +1714,7 @@ function resolveQueryFragment(typeScriptUniqueColumnTypes: Map<TypeScriptType, S
             case "Expression":
                 const type = checker.getTypeAtLocation(frag.exp);
                 const maybeSqlFrag = tryTypeSqlFrag(type);
+                const stringLiteralLabels = stringLiteralUnionLabels(type);
                 switch (maybeSqlFrag.type) {
                     case "Left":
                         errors.push(nodeErrorDiagnostic(frag.exp, maybeSqlFrag.value));
@@ -1008,8 +1734,16 @@ function resolveQueryFragment(typeScriptUniqueColumnTypes: Map<TypeScriptType, S
                                     text += '"' + viewName + '"';
                                 }
                             }
+                        } else if (stringLiteralLabels !== null) {
+                            numParams++;
+                            stringLiteralUnionParams.push({
+                                paramNum: numParams,
+                                labels: stringLiteralLabels,
+                                span: nodeSourceSpan(frag.exp)
+                            });
+                            text += "($" + numParams + ")";
                         } else {
-                            const sqlType = typescriptTypeToSqlType(typeScriptUniqueColumnTypes, nonNullType(type));
+                            const sqlType = typescriptTypeToSqlType(typeScriptCustomSqlTypes, typeScriptUniqueColumnTypes, nonNullType(type));
                             if (sqlType === null) {
                                 const typeStr = checker.typeToString(type, frag.exp);
                                 errors.push(nodeErrorDiagnostic(frag.exp, `Invalid type for SQL parameter: ${typeStr}`));
@@ -1030,6 +1764,14 @@ function resolveQueryFragment(typeScriptUniqueColumnTypes: Map<TypeScriptType, S
                                     : escapeIdentifier(sqlTypeStr);
 
                                 text += "($" + numParams + (sqlTypeStr !== "" ? "::" + escapedSqlTypeStr : "") + ")";
+
+                                if (sqlTypeStr === "jsonb") {
+                                    jsonParams.push({
+                                        paramNum: numParams,
+                                        type: TypeScriptType.wrap(checker.typeToString(nonNullType(type))),
+                                        span: nodeSourceSpan(frag.exp)
+                                    });
+                                }
                             }
                         }
                         break;
@@ -1044,12 +1786,20 @@ function resolveQueryFragment(typeScriptUniqueColumnTypes: Map<TypeScriptType, S
 
     if (errors.length === 0) {
         let colTypes: Map<string, [ColNullability, TypeScriptType]> | null;
-        if (query.typeArgument === null) {
+        let singleColType: SingleColType | null;
+        if (query.resultShape === "SingleColumn") {
+            colTypes = null;
+            singleColType = query.typeArgument !== null
+                ? typescriptTypeToSingleColType(checker, query.typeArgument, e => errors.push(e))
+                : { type: "Missing" };
+        } else if (query.typeArgument === null) {
             // If no type argument was specified, then for our purposes it is
             // equivalent to <{}>
             colTypes = new Map<string, [ColNullability, TypeScriptType]>();
+            singleColType = null;
         } else {
             colTypes = typescriptRowTypeToColTypes(checker, query.typeArgument, e => errors.push(e));
+            singleColType = null;
         }
 
         return {
@@ -1059,7 +1809,11 @@ function resolveQueryFragment(typeScriptUniqueColumnTypes: Map<TypeScriptType, S
                 fileContents: query.fileContents,
                 text: text,
                 sourceMap: sourceMap,
+                stringLiteralUnionParams: stringLiteralUnionParams,
+                jsonParams: jsonParams,
                 colTypes: colTypes,
+                resultShape: query.resultShape,
+                singleColType: singleColType,
                 queryMethodName: query.queryMethodName,
                 colTypeSpan: query.typeArgumentSpan,
                 indentLevel: query.indentLevel,
@@ -1075,7 +1829,7 @@ function resolveQueryFragment(typeScriptUniqueColumnTypes: Map<TypeScriptType, S
 }
 
 
-function resolveInsertMany(typeScriptUniqueColumnTypes: Map<TypeScriptType, SqlType>, projectDir: string, checker: ts.TypeChecker, query: InsertManyExpression, lookupViewName: (qualifiedSqlViewName: QualifiedSqlViewName) => string | undefined): Either<ErrorDiagnostic[], ResolvedInsert> {
+function resolveInsertMany(typeScriptCustomSqlTypes: Map<TypeScriptType, SqlType>, typeScriptUniqueColumnTypes: Map<TypeScriptType, SqlType>, projectDir: string, checker: ts.TypeChecker, query: InsertManyExpression, lookupViewName: (qualifiedSqlViewName: QualifiedSqlViewName) => string | undefined): Either<ErrorDiagnostic[], ResolvedInsert> {
     // TODO This contains lots of copy&pasted code from
     // `resolveQueryFragment`. The common code should be refactored into
     // helper functions
@@ -1084,15 +1838,44 @@ function resolveInsertMany(typeScriptUniqueColumnTypes: Map<TypeScriptType, SqlT
 
     let text = "";
 
+    // The values themselves are checked separately (against the columns of
+    // the table), so only the epilogue needs to be analyzed by the database
+    let insertText: string;
+    switch (query.command) {
+        case "INSERT":
+            insertText = `INSERT INTO ${escapeIdentifier(query.tableName)} DEFAULT VALUES `;
+            if (query.onConflict !== null) {
+                insertText += `ON CONFLICT (${query.onConflict.conflictColumns.map(escapeIdentifier).join(", ")}) `;
+                insertText += query.onConflict.updateColumns.length === 0
+                    ? "DO NOTHING "
+                    : `DO UPDATE SET ${query.onConflict.updateColumns.map(c => `${escapeIdentifier(c)} = EXCLUDED.${escapeIdentifier(c)}`).join(", ")} `;
+            }
+            break;
+        case "UPDATE":
+            insertText = `UPDATE ${escapeIdentifier(query.tableName)} SET ${[...query.insertColumns.keys()].sort().map(c => `${escapeIdentifier(c)} = DEFAULT`).join(", ")} `;
+            break;
+        case "DELETE":
+            // With a filter object there is no epilogue, and the columns only
+            // need to be referenced
+            insertText = query.insertColumns.size > 0
+                ? `DELETE FROM ${escapeIdentifier(query.tableName)} WHERE ${[...query.insertColumns.keys()].sort().map(c => `${escapeIdentifier(c)} IS NULL`).join(" AND ")} `
+                : `DELETE FROM ${escapeIdentifier(query.tableName)} WHERE `;
+            break;
+        default:
+            return assertNever(query.command);
+    }
+
     const insertFragment: QueryCallExpression.QueryFragment[] = [{
         type: "StringFragment",
-        text: `INSERT INTO ${escapeIdentifier(query.tableName)} DEFAULT VALUES `,
+        text: insertText,
         sourcePosStart: 0
     }];
 
     const queryFragments: QueryCallExpression.QueryFragment[] = insertFragment.concat(query.epilougeFragments);
 
     const sourceMap: [number, number, number][] = [];
+    const stringLiteralUnionParams: StringLiteralUnionParam[] = [];
+    const jsonParams: JsonParam[] = [];
     let numParams = 0;
     for (const frag of queryFragments) {
         switch (frag.type) {
@@ -1103,6 +1886,7 @@ function resolveInsertMany(typeScriptUniqueColumnTypes: Map<TypeScriptType, SqlT
             case "Expression":
                 const type = checker.getTypeAtLocation(frag.exp);
                 const maybeSqlFrag = tryTypeSqlFrag(type);
+                const stringLiteralLabels = stringLiteralUnionLabels(type);
                 switch (maybeSqlFrag.type) {
                     case "Left":
                         errors.push(nodeErrorDiagnostic(frag.exp, maybeSqlFrag.value));
@@ -1122,8 +1906,16 @@ function resolveInsertMany(typeScriptUniqueColumnTypes: Map<TypeScriptType, SqlT
                                     text += '"' + viewName + '"';
                                 }
                             }
+                        } else if (stringLiteralLabels !== null) {
+                            numParams++;
+                            stringLiteralUnionParams.push({
+                                paramNum: numParams,
+                                labels: stringLiteralLabels,
+                                span: nodeSourceSpan(frag.exp)
+                            });
+                            text += "($" + numParams + ")";
                         } else {
-                            const sqlType = typescriptTypeToSqlType(typeScriptUniqueColumnTypes, nonNullType(type));
+                            const sqlType = typescriptTypeToSqlType(typeScriptCustomSqlTypes, typeScriptUniqueColumnTypes, nonNullType(type));
                             if (sqlType === null) {
                                 const typeStr = checker.typeToString(type, frag.exp);
                                 errors.push(nodeErrorDiagnostic(frag.exp, `Invalid type for SQL parameter: ${typeStr}`));
@@ -1144,6 +1936,14 @@ function resolveInsertMany(typeScriptUniqueColumnTypes: Map<TypeScriptType, SqlT
                                     : escapeIdentifier(sqlTypeStr);
 
                                 text += "($" + numParams + (sqlTypeStr !== "" ? "::" + escapedSqlTypeStr : "") + ")";
+
+                                if (sqlTypeStr === "jsonb") {
+                                    jsonParams.push({
+                                        paramNum: numParams,
+                                        type: TypeScriptType.wrap(checker.typeToString(nonNullType(type))),
+                                        span: nodeSourceSpan(frag.exp)
+                                    });
+                                }
                             }
                         }
                         break;
@@ -1171,11 +1971,17 @@ function resolveInsertMany(typeScriptUniqueColumnTypes: Map<TypeScriptType, SqlT
             value: {
                 fileName: query.fileName,
                 fileContents: query.fileContents,
+                command: query.command,
                 insertColumns: query.insertColumns,
+                onConflict: query.onConflict,
                 tableName: query.tableName,
                 text: text,
                 sourceMap: sourceMap,
+                stringLiteralUnionParams: stringLiteralUnionParams,
+                jsonParams: jsonParams,
                 colTypes: colTypes,
+                resultShape: "Rows",
+                singleColType: null,
                 queryMethodName: query.queryMethodName,
                 colTypeSpan: query.typeArgumentSpan,
                 tableNameExprSpan: query.tableNameExprSpan,
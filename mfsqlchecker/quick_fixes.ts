@@ -0,0 +1,102 @@
+import { assertNever } from "assert-never";
+import * as fs from "fs";
+import * as ts from "typescript";
+import { ErrorDiagnostic, QuickFix, SrcSpan } from "./ErrorDiagnostic";
+
+export interface AppliedQuickFixes {
+    fileName: string;
+    quickFixes: QuickFix[];
+}
+
+interface Replacement {
+    start: number;
+    end: number;
+    quickFix: QuickFix;
+}
+
+/**
+ * Applies the quick fixes of all of the given `errorDiagnostics` and writes
+ * the modified files to disk.
+ *
+ * Only quick fixes that have an exact range are applied. If the ranges of
+ * multiple quick fixes overlap, then only the first one is applied (running
+ * the check again will report the others, if they are still relevant).
+ *
+ * A file is skipped if it has changed on disk since it was checked.
+ *
+ * @returns The files that were modified
+ */
+export function applyQuickFixes(errorDiagnostics: ErrorDiagnostic[]): AppliedQuickFixes[] {
+    const files = new Map<string, ErrorDiagnostic[]>();
+    for (const errorDiagnostic of errorDiagnostics) {
+        if (errorDiagnostic.quickFix !== null && errorDiagnostic.span.type === "LineAndColRange") {
+            let fileErrors = files.get(errorDiagnostic.fileName);
+            if (fileErrors === undefined) {
+                fileErrors = [];
+                files.set(errorDiagnostic.fileName, fileErrors);
+            }
+            fileErrors.push(errorDiagnostic);
+        }
+    }
+
+    const result: AppliedQuickFixes[] = [];
+
+    files.forEach((fileErrors, fileName) => {
+        const fileContents = fileErrors[0].fileContents;
+        if (fs.readFileSync(fileName, "utf8") !== fileContents) {
+            console.error(`Skipping quick fixes for file that was modified during the check: ${fileName}`);
+            return;
+        }
+
+        const sourceFile = ts.createSourceFile(fileName, fileContents, ts.ScriptTarget.Latest);
+
+        const replacements: Replacement[] = [];
+        for (const errorDiagnostic of fileErrors) {
+            if (errorDiagnostic.quickFix === null) {
+                throw new Error("The Impossible Happened");
+            }
+            const [start, end] = spanPositions(sourceFile, errorDiagnostic.span);
+            if (!replacements.some(r => start < r.end && r.start < end)) {
+                replacements.push({
+                    start: start,
+                    end: end,
+                    quickFix: errorDiagnostic.quickFix
+                });
+            }
+        }
+
+        // Apply the replacements from the end of the file towards the
+        // beginning, so that each one doesn't shift the positions of the
+        // ones that still need to be applied
+        replacements.sort((a, b) => b.start - a.start);
+
+        let newContents = fileContents;
+        for (const replacement of replacements) {
+            newContents = newContents.substring(0, replacement.start) + replacement.quickFix.replacementText + newContents.substring(replacement.end);
+        }
+
+        fs.writeFileSync(fileName, newContents, "utf8");
+
+        result.push({
+            fileName: fileName,
+            quickFixes: replacements.reverse().map(r => r.quickFix)
+        });
+    });
+
+    return result;
+}
+
+function spanPositions(sourceFile: ts.SourceFile, span: SrcSpan): [number, number] {
+    switch (span.type) {
+        case "LineAndColRange":
+            return [
+                ts.getPositionOfLineAndCharacter(sourceFile, span.startLine - 1, span.startCol - 1),
+                ts.getPositionOfLineAndCharacter(sourceFile, span.endLine - 1, span.endCol - 1)
+            ];
+        case "LineAndCol":
+        case "File":
+            throw new Error(`Quick fix span must be a range: ${span.type}`);
+        default:
+            return assertNever(span);
+    }
+}
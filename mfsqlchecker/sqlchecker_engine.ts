@@ -4,12 +4,20 @@ import { assertNever } from "assert-never";
 import * as fs from "fs";
 import * as path from "path";
 import * as ts from "typescript";
-import { ColTypesFormat, defaultColTypesFormat, loadConfigFile, sqlUniqueTypeName, UniqueTableColumnType } from "./ConfigFile";
-import { DbConnector } from "./DbConnector";
+import { ColTypesFormat, CustomSqlTypeMapping, defaultColTypesFormat, defaultConnectionTypeTag, defaultCustomSqlTypeMappings, defaultQueryMethods, JsonColumnType, loadConfigFile, makeTypeScriptCustomSqlTypes, QueryMethod, sqlUniqueTypeName, UniqueTableColumnType } from "./ConfigFile";
+import { CheckedQuery, DbConnector } from "./DbConnector";
 import { ErrorDiagnostic } from "./ErrorDiagnostic";
 import { findAllQueryCalls, ResolvedQuery, SqlType, TypeScriptType } from "./queries";
+import { applyQuickFixes } from "./quick_fixes";
 import { QualifiedSqlViewName, resolveAllViewDefinitions, sourceFileModuleName, SqlViewDefinition, sqlViewLibraryResetToInitialFragmentsIncludingDeps, sqlViewsLibraryAddFromSourceFile } from "./views";
 
+/**
+ * Renders the results of a check. `checkedQueries` contains all of the views
+ * and queries that were checked against the database (the `errorDiagnostics`
+ * may also contain errors that don't belong to any of them)
+ */
+export type Formatter = (errorDiagnostics: ErrorDiagnostic[], checkedQueries: CheckedQuery[]) => string;
+
 export class SqlCheckerEngine {
     constructor(private readonly configFileName: string | null, private readonly dbConnector: DbConnector) {
         this.viewLibrary = new Map<QualifiedSqlViewName, SqlViewDefinition>();
@@ -17,7 +25,7 @@ export class SqlCheckerEngine {
 
     viewLibrary: Map<QualifiedSqlViewName, SqlViewDefinition>;
 
-    async checkChangedSourceFiles(projectDir: string, program: ts.Program, checker: ts.TypeChecker, sourceFiles: string[]): Promise<ErrorDiagnostic[]> {
+    async checkChangedSourceFiles(projectDir: string, program: ts.Program, checker: ts.TypeChecker, sourceFiles: string[]): Promise<[ErrorDiagnostic[], CheckedQuery[]]> {
         const progSourceFiles = program.getSourceFiles().filter(s => !s.isDeclarationFile);
 
         let errorDiagnostics: ErrorDiagnostic[] = [];
@@ -66,17 +74,25 @@ export class SqlCheckerEngine {
 
         let colTypesFormat: ColTypesFormat = defaultColTypesFormat;
         let strictDateTimeChecking: boolean = false;
+        let customSqlTypeMappings: CustomSqlTypeMapping[] = defaultCustomSqlTypeMappings;
         let uniqueTableColumnTypes: UniqueTableColumnType[] = [];
+        let jsonColumnTypes: JsonColumnType[] = [];
+        let queryMethods: QueryMethod[] = defaultQueryMethods;
+        let connectionTypeTags: string[] = [defaultConnectionTypeTag];
 
         if (this.configFileName !== null) {
             const config = loadConfigFile(this.configFileName);
             switch (config.type) {
                 case "Left":
-                    return Promise.resolve<ErrorDiagnostic[]>([config.value]);
+                    return [[config.value], []];
                 case "Right":
                     colTypesFormat = config.value.colTypesFormat;
                     strictDateTimeChecking = config.value.strictDateTimeChecking;
+                    customSqlTypeMappings = config.value.customSqlTypeMappings;
                     uniqueTableColumnTypes = config.value.uniqueTableColumnTypes;
+                    jsonColumnTypes = config.value.jsonColumnTypes;
+                    queryMethods = config.value.queryMethods;
+                    connectionTypeTags = config.value.connectionTypeTags;
                     break;
                 default:
                     return assertNever(config);
@@ -88,29 +104,62 @@ export class SqlCheckerEngine {
             typeScriptUniqueColumnTypes.set(uniqueTableColumnType.typeScriptTypeName, SqlType.wrap(sqlUniqueTypeName(uniqueTableColumnType.tableName, uniqueTableColumnType.columnName)));
         }
 
+        const typeScriptCustomSqlTypes = makeTypeScriptCustomSqlTypes(customSqlTypeMappings);
+
         let resolvedQueries: ResolvedQuery[] = [];
         for (const sourceFile of progSourceFiles) {
-            const [es, qs] = findAllQueryCalls(typeScriptUniqueColumnTypes, projectDir, checker, lookupViewName, sourceFile);
+            const [es, qs] = findAllQueryCalls(typeScriptCustomSqlTypes, typeScriptUniqueColumnTypes, queryMethods, connectionTypeTags, projectDir, checker, lookupViewName, sourceFile);
             resolvedQueries = resolvedQueries.concat(es);
             errorDiagnostics = errorDiagnostics.concat(qs);
         }
 
-        const errs = await this.dbConnector.validateManifest({
+        const [errs, checkedQueries] = await this.dbConnector.validateManifest({
             colTypesFormat: colTypesFormat,
             strictDateTimeChecking: strictDateTimeChecking,
             queries: resolvedQueries,
             viewLibrary: sqlViews,
-            uniqueTableColumnTypes: uniqueTableColumnTypes
+            customSqlTypeMappings: customSqlTypeMappings,
+            uniqueTableColumnTypes: uniqueTableColumnTypes,
+            jsonColumnTypes: jsonColumnTypes
         });
 
-        return errorDiagnostics.concat(errs);
+        return [errorDiagnostics.concat(errs), checkedQueries];
     }
 }
 
 /**
+ * @param fix If true, then all of the quick fixes are applied to the source
+ * files, and then the check is run again
+ *
  * @returns true if there no errors were detected
  */
-export async function typeScriptSingleRunCheck(projectDir: string, observer: SqlCheckerEngine, formatter: (errorDiagnostics: ErrorDiagnostic[]) => string): Promise<boolean> {
+export async function typeScriptSingleRunCheck(projectDir: string, observer: SqlCheckerEngine, formatter: Formatter, fix: boolean): Promise<boolean> {
+    let [errors, checkedQueries] = await checkProject(projectDir, observer);
+
+    if (fix) {
+        const appliedQuickFixes = applyQuickFixes(errors);
+        for (const applied of appliedQuickFixes) {
+            console.error(`Applied ${applied.quickFixes.length} quick fix${applied.quickFixes.length !== 1 ? "es" : ""} to ${path.relative(process.cwd(), applied.fileName)}`);
+        }
+
+        if (appliedQuickFixes.length > 0) {
+            [errors, checkedQueries] = await checkProject(projectDir, observer);
+        }
+    }
+
+    // Not `console.log`, because it may be redirected to stderr (see `main`)
+    process.stdout.write(formatter(errors, checkedQueries) + "\n");
+
+    return errors.length === 0;
+}
+
+function checkProject(projectDir: string, observer: SqlCheckerEngine): Promise<[ErrorDiagnostic[], CheckedQuery[]]> {
+    const program = createProgram(projectDir);
+    const progSourceFiles = program.getSourceFiles().filter(s => !s.isDeclarationFile);
+    return observer.checkChangedSourceFiles(projectDir, program, program.getTypeChecker(), progSourceFiles.map(s => s.fileName));
+}
+
+function createProgram(projectDir: string): ts.Program {
     const configPath = ts.findConfigFile(
         /*searchPath*/ projectDir,
         ts.sys.fileExists, // tslint:disable-line:no-unbound-method
@@ -156,18 +205,35 @@ export async function typeScriptSingleRunCheck(projectDir: string, observer: Sql
         }
     }
     const host = ts.createCompilerHost(parsed.options, true);
-    const program = ts.createProgram(parsed.fileNames, parsed.options, host);
-
-    const progSourceFiles = program.getSourceFiles().filter(s => !s.isDeclarationFile);
+    return ts.createProgram(parsed.fileNames, parsed.options, host);
+}
 
-    const errors = await observer.checkChangedSourceFiles(projectDir, program, program.getTypeChecker(), progSourceFiles.map(s => s.fileName));
-    console.log(formatter(errors));
+/**
+ * Receives the results of the checks that are run by `TypeScriptWatcher`
+ */
+export interface WatchReporter {
+    checkStarted(): void;
+    checkCompleted(errorDiagnostics: ErrorDiagnostic[], checkedQueries: CheckedQuery[]): void;
+}
 
-    return errors.length === 0;
+/**
+ * Prints the results to stdout, surrounded by markers so that they can be
+ * picked up by an editor extension
+ */
+export function consoleWatchReporter(formatter: Formatter): WatchReporter {
+    return {
+        checkStarted: () => {
+            console.log("[DIAGNOSTICS START]");
+        },
+        checkCompleted: (errorDiagnostics, checkedQueries) => {
+            console.log(formatter(errorDiagnostics, checkedQueries));
+            console.log("[DIAGNOSTICS END]");
+        }
+    };
 }
 
 export class TypeScriptWatcher {
-    constructor(observer: SqlCheckerEngine, private readonly formatter: (errorDiagnostics: ErrorDiagnostic[]) => string) {
+    constructor(observer: SqlCheckerEngine, private readonly reporter: WatchReporter) {
         this.observer = observer;
     }
 
@@ -206,12 +272,18 @@ export class TypeScriptWatcher {
 
     projectDir: string;
 
-    run(projectDir: string): void {
+    /**
+     * @param system Can be used to supply the contents of files that have not
+     * been saved to disk
+     * @param optionsToExtend Overrides for the compiler options from the
+     * project's "tsconfig.json"
+     */
+    run(projectDir: string, system: ts.System = ts.sys, optionsToExtend: ts.CompilerOptions = {}): void {
         this.projectDir = projectDir;
 
         const configPath = ts.findConfigFile(
             /*searchPath*/ projectDir,
-            ts.sys.fileExists, // tslint:disable-line:no-unbound-method
+            system.fileExists, // tslint:disable-line:no-unbound-method
             "tsconfig.json"
         );
 
@@ -221,8 +293,8 @@ export class TypeScriptWatcher {
 
         const host = ts.createWatchCompilerHost(
             configPath,
-            {},
-            ts.sys,
+            optionsToExtend,
+            system,
             this.createProgram,
             this.reportDiagnostic,
             this.reportWatchStatusChanged
@@ -273,7 +345,7 @@ export class TypeScriptWatcher {
     }
 
     afterChange = (program: ts.Program, sourceFiles: ts.SourceFile[]): void => {
-        console.log("[DIAGNOSTICS START]");
+        this.reporter.checkStarted();
 
         this.program = program;
 
@@ -294,7 +366,7 @@ export class TypeScriptWatcher {
         }
     }
 
-    checkerComplete = (errors: ErrorDiagnostic[]): void => {
+    checkerComplete = ([errors, checkedQueries]: [ErrorDiagnostic[], CheckedQuery[]]): void => {
         if (this.queuedSourceFiles.length > 0) {
             if (this.program === undefined) {
                 throw new Error("The Impossible Happened");
@@ -309,8 +381,7 @@ export class TypeScriptWatcher {
         } else {
             this.currentlyRunning = false;
 
-            console.log(this.formatter(errors));
-            console.log("[DIAGNOSTICS END]");
+            this.reporter.checkCompleted(errors, checkedQueries);
         }
     }
 
@@ -0,0 +1,16 @@
+import { Connection, Req } from "../../lib/mfsqltool";
+
+export async function testEmployees(conn: Connection<void, unknown>) {
+    const rows = await conn.query<{
+        id: Req<number>,
+        fname: Req<string>
+    }>(conn.sql
+        `
+        SELECT
+            id,
+            fname
+        FROM employee
+        `);
+
+    console.log(rows);
+}
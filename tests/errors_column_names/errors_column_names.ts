@@ -0,0 +1,13 @@
+import { Connection, Req } from "../../lib/mfsqltool";
+
+export async function testUnnamedColumn(conn: Connection<void, unknown>) {
+    const rows = await conn.query<{
+        fname: Req<string>
+    }>(conn.sql
+        `
+        SELECT fname, salary * 2
+        FROM employee
+        `);
+
+    console.log(rows);
+}
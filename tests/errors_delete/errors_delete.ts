@@ -0,0 +1,11 @@
+import { Connection } from "../../lib/mfsqltool";
+
+export async function testEmptyFilter(conn: Connection<void, unknown>) {
+    await conn.deleteWhere("employee_skill", {});
+}
+
+export async function testInvalidFilterColumn(conn: Connection<void, unknown>, employeeId: number) {
+    await conn.deleteWhere("employee_skill", {
+        employee: employeeId
+    });
+}
@@ -0,0 +1,14 @@
+import { Connection, Req } from "../../lib/mfsqltool";
+
+export async function testInvalidEnumLabel(conn: Connection<void, unknown>, status: "draft" | "archived") {
+    const rows = await conn.query<{
+        id: Req<number>
+    }>(conn.sql
+        `
+        SELECT id
+        FROM invoice
+        WHERE status = ${status}
+        `);
+
+    console.log(rows);
+}
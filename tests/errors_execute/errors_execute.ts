@@ -0,0 +1,17 @@
+import { Connection } from "../../lib/mfsqltool";
+
+export async function testExecuteReturning(conn: Connection<void, unknown>, id: number) {
+    await conn.execute(conn.sql
+        `
+        DELETE FROM employee_skill
+        WHERE employee_id = ${id}
+        RETURNING skill, level
+        `);
+}
+
+export async function testExecuteSelect(conn: Connection<void, unknown>) {
+    await conn.execute(conn.sql
+        `
+        SELECT 1 AS one
+        `);
+}
@@ -0,0 +1,16 @@
+import { Connection } from "../../lib/mfsqltool";
+
+export async function testUpdateWithoutWhere(conn: Connection<void, unknown>) {
+    await conn.query(conn.sql
+        `
+        UPDATE employee
+        SET salary = salary + 1
+        `);
+}
+
+export async function testDeleteWithoutWhere(conn: Connection<void, unknown>) {
+    await conn.query(conn.sql
+        `
+        DELETE FROM car
+        `);
+}
@@ -0,0 +1,22 @@
+import { Connection } from "../../lib/mfsqltool";
+
+export async function testQueryScalarTwoColumns(conn: Connection<void, unknown>, id: number) {
+    const salary = await conn.queryScalar<number>(conn.sql
+        `
+        SELECT salary, fname
+        FROM employee
+        WHERE id = ${id}
+        `);
+
+    console.log(salary);
+}
+
+export async function testQueryColumnNoColumns(conn: Connection<void, unknown>) {
+    const values = await conn.queryColumn<number>(conn.sql
+        `
+        DELETE FROM employee_skill
+        WHERE level < 0
+        `);
+
+    console.log(values);
+}
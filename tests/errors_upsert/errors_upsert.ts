@@ -0,0 +1,22 @@
+import { Connection } from "../../lib/mfsqltool";
+
+export async function testConflictColumnsNotUnique(conn: Connection<void, unknown>, employeeId: number, skill: string, level: number) {
+    await conn.upsert("employee_skill", {
+        employee_id: employeeId,
+        skill: skill,
+        level: level
+    }, {
+        conflictColumns: ["skill"],
+        updateColumns: ["level"]
+    });
+}
+
+export async function testUpdateColumnNotInserted(conn: Connection<void, unknown>, employeeId: number, skill: string) {
+    await conn.upsert("employee_skill", {
+        employee_id: employeeId,
+        skill: skill
+    }, {
+        conflictColumns: ["employee_id", "skill"],
+        updateColumns: ["level"]
+    });
+}
@@ -0,0 +1,41 @@
+import { Connection, Opt, Req } from "../../lib/mfsqltool";
+
+export async function testWrongColumnType(conn: Connection<void, unknown>) {
+    const rows = await conn.query<{
+        id: Req<string>,
+        fname: Req<string>
+    }>(conn.sql
+        `
+        SELECT id, fname
+        FROM employee
+        `);
+
+    console.log(rows);
+}
+
+export async function testWrongNullability(conn: Connection<void, unknown>, departmentId: number) {
+    const rows = await conn.query<{
+        phonenumber: Req<string>,
+        manager_id: Req<number>
+    }>(conn.sql
+        `
+        SELECT phonenumber, manager_id
+        FROM employee
+        WHERE department_id = ${departmentId}
+        `);
+
+    console.log(rows);
+}
+
+export async function testMissingColumn(conn: Connection<void, unknown>) {
+    const row = await conn.queryOne<{
+        name: Opt<string>
+    }>(conn.sql
+        `
+        SELECT id, name
+        FROM department
+        LIMIT 1
+        `);
+
+    console.log(row);
+}
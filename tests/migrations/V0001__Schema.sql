@@ -31,3 +31,42 @@ CREATE TABLE car (
     status TEXT NOT NULL,
     total_cost INT NOT NULL
 );
+
+CREATE TYPE invoice_status AS ENUM ('draft', 'sent', 'paid');
+
+CREATE TABLE invoice (
+    id SERIAL8 PRIMARY KEY,
+    customer_id INT8 NOT NULL REFERENCES customer(id),
+    status invoice_status NOT NULL,
+    previous_status invoice_status,
+    total INT NOT NULL
+);
+
+CREATE DOMAIN email_address AS TEXT NOT NULL CHECK (VALUE LIKE '%@%');
+
+CREATE TYPE address AS (
+    street TEXT,
+    city TEXT
+);
+
+CREATE TABLE supplier (
+    id SERIAL8 PRIMARY KEY,
+    name TEXT NOT NULL,
+    email email_address,
+    billing_address address NOT NULL,
+    shipping_address address
+);
+
+CREATE TABLE shipment (
+    id SERIAL8 PRIMARY KEY,
+    invoice_id INT8 NOT NULL REFERENCES invoice(id),
+    details JSONB NOT NULL,
+    tracking JSONB
+);
+
+CREATE TABLE employee_skill (
+    employee_id INT8 NOT NULL REFERENCES employee(id),
+    skill TEXT NOT NULL,
+    level INT NOT NULL,
+    PRIMARY KEY (employee_id, skill)
+);
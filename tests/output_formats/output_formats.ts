@@ -0,0 +1,25 @@
+import { Connection, Req } from "../../lib/mfsqltool";
+
+export async function testValid(conn: Connection<void, unknown>) {
+    const rows = await conn.query<{
+        id: Req<number>
+    }>(conn.sql
+        `
+        SELECT id
+        FROM employee
+        `);
+
+    console.log(rows);
+}
+
+export async function testWrongColumnType(conn: Connection<void, unknown>) {
+    const rows = await conn.query<{
+        id: Req<string>
+    }>(conn.sql
+        `
+        SELECT id
+        FROM employee
+        `);
+
+    console.log(rows);
+}
@@ -1,14 +1,21 @@
 // @ts-check
 
+const assert = require("assert");
 const childProcess = require("child_process");
+const fastXmlParser = require("fast-xml-parser");
+const fs = require("fs");
 const glob = require("glob");
+const os = require("os");
+const path = require("path");
+const url = require("url");
 
 // Make sure to run `npm run build` before running these tests
 
 function main() {
     const dirs = process.argv.slice(2);
 
-    glob("tests/test_*/", (err, files) => {
+    // The "errors_*" directories contain queries that must fail the check
+    glob("tests/@(test|errors)_*/", (err, files) => {
         if (err) {
             console.error(err);
             return;
@@ -27,12 +34,44 @@ function main() {
             });
 
         const passed = runTests(filteredFiles);
-        if (!passed) {
+        const outputFormatsPassed = isSelected(dirs, OUTPUT_FORMATS_PROJECT) ? runOutputFormatTests() : true;
+        const fixTestsPassed = isSelected(dirs, FIX_TESTS_PROJECT) ? runFixTests() : true;
+        const cacheTestsPassed = isSelected(dirs, CACHE_TESTS_PROJECT) ? runCacheTests() : true;
+
+        // The async tests run one after another
+        const asyncTestsPromise = (async () => {
+            const lspTestsPassed = isSelected(dirs, LSP_TESTS_PROJECT) ? await runLspTests() : true;
+            const templatesTestsPassed = isSelected(dirs, TEMPLATES_TESTS_NAME) ? await runTemplatesTests() : true;
+            const runtimeTestsPassed = isSelected(dirs, RUNTIME_TESTS_PROJECT) ? await runRuntimeTests() : true;
+            return lspTestsPassed && templatesTestsPassed && runtimeTestsPassed;
+        })();
+
+        // If a test never completes (for example, because it waits for a
+        // response that never arrives), then node exits when there is nothing
+        // left to do, which must not count as passing
+        process.exitCode = 1;
+
+        asyncTestsPromise.then(asyncTestsPassed => {
+            if (!passed || !outputFormatsPassed || !fixTestsPassed || !cacheTestsPassed || !asyncTestsPassed) {
+                process.exit(1);
+            }
+            process.exitCode = 0;
+        }, err => {
+            console.error(err);
             process.exit(1);
-        }
+        });
     });
 }
 
+/**
+ * @param {string[]} dirs The command line arguments
+ * @param {string} project
+ * @returns {boolean} true if the tests of the project should run
+ */
+function isSelected(dirs, project) {
+    return dirs.length === 0 || dirs.some(dir => project.indexOf(dir) >= 0);
+}
+
 /**
  * @param {string[]} dirs
  * @returns {boolean}
@@ -52,7 +91,9 @@ function runTests(dirs) {
             continue;
         }
 
-        const mfsqlcheckerPassed = runMfsqlchecker(dir);
+        const mfsqlcheckerPassed = path.basename(dir).startsWith("errors_")
+            ? runMfsqlcheckerExpectingErrors(dir)
+            : runMfsqlchecker(dir);
         if (!mfsqlcheckerPassed) {
             errors.push(dir);
             continue;
@@ -94,11 +135,11 @@ function runTypeCheck(proj) {
  * @returns {boolean}
  */
 function runMfsqlchecker(proj) {
-    // TODO Compare stdout with "expected_out.txt" file
+    const args = mfsqlcheckerArgs(proj, "vscode");
 
     try {
         // $ node mfsqlchecker.js --project tests/test_simple/ --migrations tests/migrations/ --format vscode
-        childProcess.execFileSync("node", ["mfsqlchecker.js", "--project", proj, "--migrations", "tests/migrations", "--format", "vscode"], { encoding: "utf8" });
+        childProcess.execFileSync("node", args, { encoding: "utf8" });
     } catch (err) {
         if (typeof err.status !== "number") {
             throw err;
@@ -112,6 +153,708 @@ function runMfsqlchecker(proj) {
     return true;
 }
 
+/**
+ * @param {string} proj
+ * @param {string} format
+ * @returns {string[]}
+ */
+function mfsqlcheckerArgs(proj, format) {
+    // The results of earlier runs (possibly of an older build) must not be
+    // reused
+    const args = ["mfsqlchecker.js", "--project", proj, "--migrations", "tests/migrations", "--format", format, "--no-cache"];
+
+    // Tests that need a config file can include one in their directory
+    const configFile = path.join(proj, "mfsqlchecker.json");
+    if (fs.existsSync(configFile)) {
+        args.push("--config", configFile);
+    }
+
+    return args;
+}
+
+/**
+ * The check must fail, with exactly the errors that are listed in the
+ * "expected_errors.txt" file of the directory. Each error is a line in the
+ * form "<file>:<line>:<col>:", followed by the lines of its message (indented)
+ *
+ * @param {string} proj
+ * @returns {boolean}
+ */
+function runMfsqlcheckerExpectingErrors(proj) {
+    const expectedErrors = fs.readFileSync(path.join(proj, "expected_errors.txt"), { encoding: "utf8" }).trimEnd();
+
+    // $ node mfsqlchecker.js --project tests/errors_missing_where/ --migrations tests/migrations/ --format json
+    const result = childProcess.spawnSync("node", mfsqlcheckerArgs(proj, "json"), { encoding: "utf8" });
+    if (result.status !== 1) {
+        console.error(`Status: ${result.status}`);
+        console.error(result.stdout);
+        console.error(result.stderr);
+        console.error(`${proj} mfsqlchecker should have failed!`);
+        return false;
+    }
+
+    /**
+     * @type {string}
+     */
+    const actualErrors = JSON.parse(result.stdout).errorDiagnostics.map(
+        /**
+         * @param {any} e
+         */
+        e => `${path.relative(proj, e.fileName)}:${e.location.startLine + 1}:${e.location.startCharacter + 1}:\n` +
+            e.message.trimEnd().split("\n").map(
+                /**
+                 * @param {string} line
+                 */
+                line => `    ${line}`).join("\n")).join("\n");
+
+    try {
+        assert.strictEqual(actualErrors, expectedErrors);
+    } catch (err) {
+        console.error(err.message);
+        console.error(`${proj} mfsqlchecker reported unexpected errors!`);
+        return false;
+    }
+
+    return true;
+}
+
+/**
+ * Contains a single query that fails the check
+ */
+const OUTPUT_FORMATS_PROJECT = "tests/output_formats/";
+
+/**
+ * Checks that the output of the machine readable formats can be parsed (and
+ * doesn't contain any other output, such as progress messages)
+ *
+ * @returns {boolean}
+ */
+function runOutputFormatTests() {
+    console.log(`Running ${OUTPUT_FORMATS_PROJECT}`);
+
+    if (!runTypeCheck(OUTPUT_FORMATS_PROJECT)) {
+        return false;
+    }
+
+    /**
+     * @type {[string, (stdout: string) => void][]}
+     */
+    const formatChecks = [
+        ["sarif", checkSarifOutput],
+        ["junit", checkJunitOutput]
+    ];
+
+    let passed = true;
+    for (const [format, check] of formatChecks) {
+        // $ node mfsqlchecker.js --project tests/output_formats/ --migrations tests/migrations/ --format sarif
+        const result = childProcess.spawnSync("node", ["mfsqlchecker.js", "--project", OUTPUT_FORMATS_PROJECT, "--migrations", "tests/migrations", "--format", format, "--no-cache"], { encoding: "utf8" });
+        try {
+            assert.strictEqual(result.status, 1, "mfsqlchecker should fail");
+            check(result.stdout);
+        } catch (err) {
+            console.error(err.message);
+            console.error(result.stdout);
+            console.error(`${OUTPUT_FORMATS_PROJECT} "${format}" format failed!`);
+            passed = false;
+        }
+    }
+
+    return passed;
+}
+
+/**
+ * @param {string} stdout
+ */
+function checkSarifOutput(stdout) {
+    const sarifLog = JSON.parse(stdout);
+    assert.strictEqual(sarifLog.version, "2.1.0");
+    assert.strictEqual(sarifLog.runs.length, 1);
+
+    const results = sarifLog.runs[0].results;
+    assert.strictEqual(results.length, 1);
+    assert.strictEqual(results[0].locations[0].physicalLocation.artifactLocation.uri, "tests/output_formats/output_formats.ts");
+    assert.strictEqual(results[0].locations[0].physicalLocation.region.startLine, 16);
+}
+
+/**
+ * @param {string} stdout
+ */
+function checkJunitOutput(stdout) {
+    const validation = fastXmlParser.XMLValidator.validate(stdout);
+    if (validation !== true) {
+        throw new Error(`Invalid XML: ${validation.err.msg} (line ${validation.err.line})`);
+    }
+
+    const parser = new fastXmlParser.XMLParser({
+        ignoreAttributes: false,
+        attributeNamePrefix: "",
+        isArray: name => name === "testsuite" || name === "testcase"
+    });
+    const testsuites = parser.parse(stdout).testsuites;
+    assert.strictEqual(testsuites.tests, "2");
+    assert.strictEqual(testsuites.failures, "1");
+
+    const testcases = testsuites.testsuite[0].testcase;
+    assert.strictEqual(testcases.length, 2);
+
+    const failures = testcases.filter(testcase => testcase.failure !== undefined);
+    assert.strictEqual(failures.length, 1);
+    assert.strictEqual(failures[0].name, "Query at line 16");
+    assert.strictEqual(failures[0].failure.message, "Wrong Column Types");
+}
+
+/**
+ * Contains queries with wrong column types. "expected_fixed.txt" is the
+ * contents of "fix.ts" after all of the quick fixes are applied
+ */
+const FIX_TESTS_PROJECT = "tests/fix/";
+
+/**
+ * Runs the check with `--fix` on a copy of the project (the original must not
+ * be modified), and compares the fixed file with "expected_fixed.txt". Then
+ * checks the edge cases of `applyQuickFixes` that the check can't produce
+ *
+ * @returns {boolean}
+ */
+function runFixTests() {
+    console.log(`Running ${FIX_TESTS_PROJECT}`);
+
+    if (!runTypeCheck(FIX_TESTS_PROJECT)) {
+        return false;
+    }
+
+    // The copy is next to the original, so that the relative paths of the
+    // imports and of the tsconfig.json still work
+    const tempDir = fs.mkdtempSync(FIX_TESTS_PROJECT.replace(/\/$/, "-"));
+    try {
+        for (const fileName of ["fix.ts", "tsconfig.json"]) {
+            fs.copyFileSync(path.join(FIX_TESTS_PROJECT, fileName), path.join(tempDir, fileName));
+        }
+
+        // $ node mfsqlchecker.js --project tests/fix-XXXXXX --migrations tests/migrations/ --format vscode --fix
+        const result = childProcess.spawnSync("node", mfsqlcheckerArgs(tempDir, "vscode").concat(["--fix"]), { encoding: "utf8" });
+        const expected = fs.readFileSync(path.join(FIX_TESTS_PROJECT, "expected_fixed.txt"), { encoding: "utf8" });
+        const actual = fs.readFileSync(path.join(tempDir, "fix.ts"), { encoding: "utf8" });
+        try {
+            assert.strictEqual(result.status, 0, `mfsqlchecker exited with status ${result.status}`);
+            assert.strictEqual(actual, expected);
+        } catch (err) {
+            console.error(err.message);
+            console.error(result.stdout);
+            console.error(result.stderr);
+            console.error(`${FIX_TESTS_PROJECT} mfsqlchecker --fix failed!`);
+            return false;
+        }
+
+        try {
+            testApplyQuickFixes(tempDir);
+        } catch (err) {
+            console.error(err);
+            console.error(`${FIX_TESTS_PROJECT} applyQuickFixes failed!`);
+            return false;
+        }
+    } finally {
+        fs.rmSync(tempDir, { recursive: true, force: true });
+    }
+
+    return true;
+}
+
+/**
+ * @param {string} tempDir Where the test file is written
+ */
+function testApplyQuickFixes(tempDir) {
+    const { applyQuickFixes } = require("../build/mfsqlchecker/quick_fixes");
+
+    const fileName = path.join(tempDir, "quick_fixes.ts");
+    const fileContents = "const a = 1;\nconst b = 2;\n";
+
+    /**
+     * @param {number} line
+     * @param {number} startCol
+     * @param {number} endCol
+     * @param {string} replacementText
+     * @param {string} contents
+     */
+    function errorDiagnostic(line, startCol, endCol, replacementText, contents = fileContents) {
+        return {
+            fileName: fileName,
+            fileContents: contents,
+            span: { type: "LineAndColRange", startLine: line, startCol: startCol, endLine: line, endCol: endCol },
+            messages: ["Wrong"],
+            epilogue: null,
+            quickFix: { name: "Fix", replacementText: replacementText }
+        };
+    }
+
+    // Several fixes in one file (given in any order), and a fix that overlaps
+    // with an earlier one, which is skipped
+    fs.writeFileSync(fileName, fileContents);
+    const applied = applyQuickFixes([
+        errorDiagnostic(2, 11, 12, "20"),
+        errorDiagnostic(1, 7, 8, "x"),
+        errorDiagnostic(1, 7, 13, "let y = 3;")
+    ]);
+    assert.strictEqual(fs.readFileSync(fileName, { encoding: "utf8" }), "const x = 1;\nconst b = 20;\n");
+    assert.deepStrictEqual(applied, [{
+        fileName: fileName,
+        quickFixes: [{ name: "Fix", replacementText: "x" }, { name: "Fix", replacementText: "20" }]
+    }]);
+
+    // The file changed on disk after it was checked
+    fs.writeFileSync(fileName, fileContents);
+    const consoleError = console.error;
+    console.error = () => undefined;
+    try {
+        assert.deepStrictEqual(applyQuickFixes([errorDiagnostic(1, 7, 8, "x", "const a = 0;\n")]), []);
+    } finally {
+        console.error = consoleError;
+    }
+    assert.strictEqual(fs.readFileSync(fileName, { encoding: "utf8" }), fileContents);
+}
+
+/**
+ * Contains a single query, whose answer depends on the "employee" table of
+ * the migrations, and on the "uniqueTableColumnTypes" of the config file
+ */
+const CACHE_TESTS_PROJECT = "tests/cache/";
+
+/**
+ * Checks the project again and again with the same cache directory, and with
+ * a copy of the migrations and of the config file, which are changed between
+ * the runs. A run with a changed migration or config file must not reuse the
+ * answers of the previous run (which would be wrong)
+ *
+ * @returns {boolean}
+ */
+function runCacheTests() {
+    console.log(`Running ${CACHE_TESTS_PROJECT}`);
+
+    if (!runTypeCheck(CACHE_TESTS_PROJECT)) {
+        return false;
+    }
+
+    const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "mfsqlchecker-cache-test-"));
+    const cacheDir = path.join(tempDir, "cache");
+    const migrationsDir = path.join(tempDir, "migrations");
+    const migrationFile = path.join(migrationsDir, "V0001__Schema.sql");
+    const configFile = path.join(tempDir, "mfsqlchecker.json");
+
+    const schema = fs.readFileSync("tests/migrations/V0001__Schema.sql", { encoding: "utf8" });
+    fs.mkdirSync(migrationsDir);
+    fs.writeFileSync(migrationFile, schema);
+    fs.writeFileSync(configFile, JSON.stringify({}));
+
+    /**
+     * Each step changes the files, and then the check must exit with the
+     * status
+     *
+     * @type {[string, () => void, number][]}
+     */
+    const steps = [
+        ["first run", () => undefined, 0],
+        ["nullable column", () => fs.writeFileSync(migrationFile, schema.replace("fname TEXT NOT NULL,", "fname TEXT,")), 1],
+        ["original migration", () => fs.writeFileSync(migrationFile, schema), 0],
+        ["unique column type", () => fs.writeFileSync(configFile, JSON.stringify({
+            uniqueTableColumnTypes: [{ typeScriptTypeName: "EmployeeId", tableName: "employee", columnName: "id" }]
+        })), 1]
+    ];
+
+    let passed = true;
+    try {
+        for (const [name, change, expectedStatus] of steps) {
+            change();
+
+            // $ node mfsqlchecker.js --project tests/cache/ --migrations <tempDir>/migrations --config <tempDir>/mfsqlchecker.json --cache-dir <tempDir>/cache --format vscode
+            const result = childProcess.spawnSync("node", ["mfsqlchecker.js", "--project", CACHE_TESTS_PROJECT, "--migrations", migrationsDir, "--config", configFile, "--cache-dir", cacheDir, "--format", "vscode"], { encoding: "utf8" });
+            try {
+                assert.strictEqual(result.status, expectedStatus, `mfsqlchecker exited with status ${result.status}`);
+                assert.strictEqual(fs.readdirSync(cacheDir).length, 1, "There should be a cache file");
+            } catch (err) {
+                console.error(err.message);
+                console.error(result.stdout);
+                console.error(result.stderr);
+                console.error(`${CACHE_TESTS_PROJECT} "${name}" failed!`);
+                passed = false;
+                break;
+            }
+        }
+    } finally {
+        fs.rmSync(tempDir, { recursive: true, force: true });
+    }
+
+    return passed;
+}
+
+/**
+ * Contains a single query without errors, which the tests edit (without
+ * saving) in the LSP client
+ */
+const LSP_TESTS_PROJECT = "tests/lsp/";
+
+/**
+ * How long to wait for each response of the server. The first check also
+ * starts PostgreSQL and runs the migrations
+ */
+const LSP_TIMEOUT_MS = 120000;
+
+/**
+ * Runs the checker as a Language Server, and talks to it over stdin/stdout
+ * like an editor would
+ *
+ * @returns {Promise<boolean>}
+ */
+async function runLspTests() {
+    console.log(`Running ${LSP_TESTS_PROJECT}`);
+
+    if (!runTypeCheck(LSP_TESTS_PROJECT)) {
+        return false;
+    }
+
+    const { createMessageConnection, StreamMessageReader, StreamMessageWriter } = require("vscode-languageserver/node");
+
+    const fileName = path.resolve(LSP_TESTS_PROJECT, "lsp.ts");
+    const uri = url.pathToFileURL(fileName).href;
+    const savedText = fs.readFileSync(fileName, { encoding: "utf8" });
+
+    // The column types are wrong only in the editor
+    const unsavedText = savedText.replace("id: Req<number>", "id: Req<string>");
+
+    // $ node mfsqlchecker.js --project tests/lsp/ --migrations tests/migrations/ --no-cache lsp
+    const server = childProcess.spawn("node", ["mfsqlchecker.js", "--project", LSP_TESTS_PROJECT, "--migrations", "tests/migrations", "--no-cache", "lsp"]);
+    let serverStderr = "";
+    server.stderr.on("data", data => {
+        serverStderr += data;
+    });
+    /**
+     * @type {Promise<number | null>}
+     */
+    const serverExited = new Promise(resolve => server.on("exit", resolve));
+
+    const connection = createMessageConnection(new StreamMessageReader(server.stdout), new StreamMessageWriter(server.stdin));
+
+    /**
+     * The diagnostics of the file that were published, but not yet waited for
+     *
+     * @type {any[][]}
+     */
+    const publishedDiagnostics = [];
+
+    /**
+     * @type {((diagnostics: any[]) => void) | null}
+     */
+    let waitingForDiagnostics = null;
+
+    connection.onNotification("textDocument/publishDiagnostics", params => {
+        if (params.uri !== uri) {
+            return;
+        }
+        if (waitingForDiagnostics !== null) {
+            waitingForDiagnostics(params.diagnostics);
+            waitingForDiagnostics = null;
+        } else {
+            publishedDiagnostics.push(params.diagnostics);
+        }
+    });
+    connection.listen();
+
+    /**
+     * @returns {Promise<any[]>}
+     */
+    function nextDiagnostics() {
+        const diagnostics = publishedDiagnostics.shift();
+        return withTimeout(diagnostics !== undefined
+            ? Promise.resolve(diagnostics)
+            : new Promise(resolve => {
+                waitingForDiagnostics = resolve;
+            }), "diagnostics");
+    }
+
+    /**
+     * @param {string} method
+     * @param {any} [params]
+     * @returns {Promise<any>}
+     */
+    function sendRequest(method, params) {
+        return withTimeout(connection.sendRequest(method, params), method);
+    }
+
+    /**
+     * @param {any[]} diagnostics
+     * @returns {Promise<any[]>}
+     */
+    function codeActions(diagnostics) {
+        return sendRequest("textDocument/codeAction", {
+            textDocument: { uri: uri },
+            range: diagnostics[0].range,
+            context: { diagnostics: diagnostics }
+        });
+    }
+
+    let passed = true;
+    try {
+        await sendRequest("initialize", { processId: process.pid, rootUri: null, capabilities: {} });
+        connection.sendNotification("initialized", {});
+        connection.sendNotification("textDocument/didOpen", {
+            textDocument: { uri: uri, languageId: "typescript", version: 1, text: unsavedText }
+        });
+
+        // The file on disk doesn't have any errors (so no diagnostics are
+        // published for it), only the unsaved document does
+        const diagnostics = await nextDiagnostics();
+        assert.deepStrictEqual(diagnostics.map(d => d.message.split("\n")[0]), ["Wrong Column Types"]);
+
+        const actions = await codeActions(diagnostics);
+        assert.deepStrictEqual(actions.map(a => a.title), ["Fix Column Types"]);
+        assert.strictEqual(applyTextEdits(unsavedText, actions[0].edit.changes[uri]), savedText);
+
+        // Moves the query down by one line. The fixes of the previous check
+        // are stale, so there are none until the change is checked
+        const movedText = "\n" + unsavedText;
+        connection.sendNotification("textDocument/didChange", {
+            textDocument: { uri: uri, version: 2 },
+            contentChanges: [{ text: movedText }]
+        });
+        assert.deepStrictEqual(await codeActions(diagnostics), []);
+
+        const movedDiagnostics = await nextDiagnostics();
+        assert.deepStrictEqual(movedDiagnostics.map(d => d.range.start.line), [diagnostics[0].range.start.line + 1]);
+        const movedActions = await codeActions(movedDiagnostics);
+        assert.strictEqual(applyTextEdits(movedText, movedActions[0].edit.changes[uri]), "\n" + savedText);
+
+        // Fixing the error clears the diagnostics
+        connection.sendNotification("textDocument/didChange", {
+            textDocument: { uri: uri, version: 3 },
+            contentChanges: [{ text: savedText }]
+        });
+        assert.deepStrictEqual(await nextDiagnostics(), []);
+
+        await sendRequest("shutdown");
+        connection.sendNotification("exit");
+        assert.strictEqual(await withTimeout(serverExited, "exit"), 0);
+    } catch (err) {
+        console.error(err);
+        console.error(serverStderr);
+        console.error(`${LSP_TESTS_PROJECT} failed!`);
+        passed = false;
+    } finally {
+        connection.dispose();
+        if (server.exitCode === null && server.signalCode === null) {
+            // The server stops PostgreSQL before exiting
+            server.kill("SIGINT");
+            await serverExited;
+        }
+    }
+
+    return passed;
+}
+
+/**
+ * @template T
+ * @param {Promise<T>} promise
+ * @param {string} what What is being waited for (for the error message)
+ * @returns {Promise<T>}
+ */
+function withTimeout(promise, what) {
+    /**
+     * @type {NodeJS.Timeout | undefined}
+     */
+    let timer;
+    const timeout = new Promise((_resolve, reject) => {
+        timer = setTimeout(() => reject(new Error(`Timed out waiting for ${what}`)), LSP_TIMEOUT_MS);
+    });
+    return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+/**
+ * @param {string} text
+ * @param {{ range: { start: { line: number, character: number }, end: { line: number, character: number } }, newText: string }[]} edits
+ * The edits must not overlap
+ * @returns {string}
+ */
+function applyTextEdits(text, edits) {
+    const lineStarts = [0];
+    for (let i = 0; i < text.length; ++i) {
+        if (text[i] === "\n") {
+            lineStarts.push(i + 1);
+        }
+    }
+
+    /**
+     * @param {{ line: number, character: number }} position
+     * @returns {number}
+     */
+    function offset(position) {
+        return lineStarts[position.line] + position.character;
+    }
+
+    const sortedEdits = edits.slice().sort((a, b) => offset(b.range.start) - offset(a.range.start));
+    for (const edit of sortedEdits) {
+        text = text.substring(0, offset(edit.range.start)) + edit.newText + text.substring(offset(edit.range.end));
+    }
+    return text;
+}
+
+/**
+ * The template databases of "DbConnector" don't have a project, so this is only
+ * used to select the tests on the command line
+ */
+const TEMPLATES_TESTS_NAME = "tests/templates/";
+
+/**
+ * Checks the migrations twice with the same "DbConnector", after editing the
+ * newest migration between the checks. With template databases, only the
+ * newest migration is run again. Without them, all of the migrations are
+ *
+ * @returns {Promise<boolean>}
+ */
+async function runTemplatesTests() {
+    console.log(`Running ${TEMPLATES_TESTS_NAME}`);
+
+    const { defaultColTypesFormat } = require("../build/mfsqlchecker/ConfigFile");
+    const { DbConnector } = require("../build/mfsqlchecker/DbConnector");
+    const { PostgresServer } = require("../build/mfsqlchecker/launch_postgres");
+
+    const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "mfsqlchecker-templates-test-"));
+    const newestMigration = path.join(tempDir, "V0002__Project.sql");
+    fs.copyFileSync("tests/migrations/V0001__Schema.sql", path.join(tempDir, "V0001__Schema.sql"));
+    fs.writeFileSync(newestMigration, "CREATE TABLE project (id SERIAL PRIMARY KEY);\n");
+
+    const manifest = {
+        colTypesFormat: defaultColTypesFormat,
+        strictDateTimeChecking: true,
+        viewLibrary: [],
+        queries: [],
+        customSqlTypeMappings: [],
+        uniqueTableColumnTypes: [],
+        jsonColumnTypes: []
+    };
+
+    /**
+     * @param {any} dbConnector
+     * @returns {Promise<string[]>} Everything that was logged while checking
+     * the manifest
+     */
+    async function validateManifest(dbConnector) {
+        /**
+         * @type {string[]}
+         */
+        const lines = [];
+        const consoleLog = console.log;
+        console.log = (...args) => lines.push(args.join(" "));
+        try {
+            const [errors] = await dbConnector.validateManifest(manifest);
+            assert.deepStrictEqual(errors, []);
+        } finally {
+            console.log = consoleLog;
+        }
+        return lines.filter(line => line.startsWith("Migration file ") || line.startsWith("Restoring database "));
+    }
+
+    // The default version of mfsqlchecker
+    const pgServer = await PostgresServer.start("15.4.0");
+    let passed = true;
+    try {
+        for (const saveTemplates of [true, false]) {
+            fs.writeFileSync(newestMigration, "CREATE TABLE project (id SERIAL PRIMARY KEY);\n");
+            const dbConnector = await DbConnector.Connect(tempDir, pgServer.url, undefined, null, saveTemplates);
+            try {
+                assert.deepStrictEqual(await validateManifest(dbConnector), [
+                    "Migration file V0001__Schema.sql",
+                    "Migration file V0002__Project.sql"
+                ]);
+
+                fs.writeFileSync(newestMigration, "CREATE TABLE project (id SERIAL PRIMARY KEY, name TEXT NOT NULL);\n");
+                assert.deepStrictEqual(await validateManifest(dbConnector), saveTemplates
+                    ? [
+                        "Restoring database after migration file V0001__Schema.sql",
+                        "Migration file V0002__Project.sql"
+                    ]
+                    : [
+                        "Migration file V0001__Schema.sql",
+                        "Migration file V0002__Project.sql"
+                    ]);
+            } catch (err) {
+                console.error(err);
+                console.error(`${TEMPLATES_TESTS_NAME} (saveTemplates: ${saveTemplates}) failed!`);
+                passed = false;
+            } finally {
+                await dbConnector.close();
+            }
+        }
+    } finally {
+        await pgServer.close();
+        fs.rmSync(tempDir, { recursive: true, force: true });
+    }
+
+    return passed;
+}
+
+/**
+ * Tests of the "mfsqltool" runtime library, that use a fake "pg" client
+ * (instead of a database)
+ */
+const RUNTIME_TESTS_PROJECT = "tests/runtime/";
+
+/**
+ * Where "tsc" writes the compiled tests (see "tests/runtime/tsconfig.json")
+ */
+const RUNTIME_TESTS_OUT_DIR = "build/tests_runtime/tests/runtime";
+
+/**
+ * Compiles the "test_*.ts" files of the runtime tests, and calls all of the
+ * "test*" functions that each one exports
+ *
+ * @returns {Promise<boolean>}
+ */
+async function runRuntimeTests() {
+    console.log(`Running ${RUNTIME_TESTS_PROJECT}`);
+
+    try {
+        // $ ./node_modules/.bin/tsc --project tests/runtime/
+        childProcess.execFileSync("node", ["./node_modules/.bin/tsc", "--project", RUNTIME_TESTS_PROJECT], { encoding: "utf8" });
+    } catch (err) {
+        if (typeof err.status !== "number") {
+            throw err;
+        }
+        console.error(`Status: ${err.status}`);
+        console.error(err.stdout);
+        console.error(`${RUNTIME_TESTS_PROJECT} compilation failed!`);
+        return false;
+    }
+
+    /**
+     * @type {string[]}
+     */
+    const errors = [];
+    let numTests = 0;
+
+    for (const file of glob.sync(`${RUNTIME_TESTS_OUT_DIR}/test_*.js`)) {
+        const testModule = require(path.resolve(file));
+        for (const testName of Object.keys(testModule)) {
+            if (!testName.startsWith("test") || typeof testModule[testName] !== "function") {
+                continue;
+            }
+
+            ++numTests;
+            try {
+                await testModule[testName]();
+            } catch (err) {
+                console.error(err);
+                errors.push(`${path.basename(file, ".js")}: ${testName}`);
+            }
+        }
+    }
+
+    for (const error of errors) {
+        console.error(`${error} failed!`);
+    }
+
+    console.log(`(${numTests - errors.length}/${numTests}) Passed`);
+
+    return errors.length === 0;
+}
+
 if (require.main === module) {
     main();
 }
@@ -123,7 +866,8 @@ if (require.main === module) {
 //
 //     Run mfsqlchecker:
 //     node mfsqlchecker.js -p tests/test_simple/ -m tests/migrations/ --format vscode
-//     Compare stdout with "expected_out.txt" file
+//     Compare stdout with "expected_out.txt" file (like "errors_*" directories
+//     do with "expected_errors.txt")
 
 
 // Bonus points: Use a single launch_postgres invocation here in the test runner
@@ -0,0 +1,152 @@
+import * as pg from "pg";
+import { PoolConnection } from "../../lib/mfsqltool";
+
+/**
+ * Returns the result of a query, or throws an error (such as the result of
+ * `postgreSqlError`)
+ */
+export type FakeResponder = (text: string, values: any[]) => pg.QueryResult;
+
+/**
+ * Stands in for both a `pg.Client` and a `pg.PoolClient`, without a database.
+ * Records all of the queries that it receives
+ */
+export class FakeClient {
+    constructor(private readonly respond: FakeResponder = () => queryResult([])) { }
+
+    /**
+     * The text of each query, in the order that they were received
+     */
+    readonly queries: string[] = [];
+
+    /**
+     * The argument of each call to `release` (when checked out of a pool)
+     */
+    readonly releases: (Error | undefined)[] = [];
+
+    query(text: string, values?: any, callback?: (err: Error | null, result?: pg.QueryResult) => void): any {
+        // The callback can be the second argument (like in "pg")
+        if (typeof values === "function") {
+            callback = values;
+            values = [];
+        }
+        const vals: any[] = values !== undefined ? values : [];
+
+        this.queries.push(text);
+
+        // Respond asynchronously, like an actual connection
+        const result = new Promise<pg.QueryResult>((resolve, reject) => {
+            setImmediate(() => {
+                try {
+                    resolve(this.respond(text, vals));
+                } catch (err) {
+                    reject(err);
+                }
+            });
+        });
+
+        if (callback === undefined) {
+            return result;
+        }
+        const cb = callback;
+        result.then(r => cb(null, r), err => cb(err));
+        return undefined;
+    }
+
+    release(err?: Error): void {
+        this.releases.push(err);
+    }
+
+    asClient(): pg.Client {
+        return <any>this;
+    }
+}
+
+/**
+ * A pool (that never connects to a database) whose clients are the ones that
+ * are returned by `newClient`
+ *
+ * @param connectDelayMs How long it takes to check out a client
+ */
+export function fakePool(newClient: () => FakeClient, connectDelayMs: number = 0): pg.Pool {
+    const pool = new pg.Pool();
+    pool.connect = <any>(async () => {
+        await delay(connectDelayMs);
+        return newClient();
+    });
+    return pool;
+}
+
+/**
+ * Each client of the pool uses the same `respond` function
+ */
+export function newPoolConnection(respond?: FakeResponder): [PoolConnection<void, unknown>, FakeClient[]] {
+    const clients: FakeClient[] = [];
+    const pool = fakePool(() => {
+        const client = new FakeClient(respond);
+        clients.push(client);
+        return client;
+    });
+    return [new PoolConnection<void, unknown>(pool), clients];
+}
+
+/**
+ * All of the columns of the rows are returned as "text" columns
+ */
+export function queryResult(rows: object[]): pg.QueryResult {
+    const fields = rows.length > 0 ? Object.keys(rows[0]) : [];
+    return {
+        command: "SELECT",
+        rowCount: rows.length,
+        oid: 0,
+        rows: rows,
+        fields: fields.map(name => ({
+            name: name,
+            tableID: 0,
+            columnID: 0,
+            dataTypeID: 25,
+            dataTypeSize: -1,
+            dataTypeModifier: -1,
+            format: "text"
+        }))
+    };
+}
+
+/**
+ * An error with all of the fields of an error from the database (as created
+ * by "pg")
+ */
+export function postgreSqlError(code: string, message: string): Error {
+    const err: any = new Error(message);
+    err.severity = "ERROR";
+    err.code = code;
+    for (const field of ["detail", "hint", "position", "internalPosition", "internalQuery", "where", "schema", "table", "column", "dataType", "constraint", "file", "line", "routine"]) {
+        err[field] = undefined;
+    }
+    return err;
+}
+
+/**
+ * Hides the errors that are logged when a ROLLBACK fails
+ */
+export async function withoutConsoleError(action: () => Promise<void>): Promise<void> {
+    const consoleError = console.error;
+    console.error = () => undefined;
+    try {
+        await action();
+    } finally {
+        console.error = consoleError;
+    }
+}
+
+export async function delay(ms: number): Promise<void> {
+    await new Promise<void>(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Replaces the (random) names of savepoints and cursors, so that the queries
+ * can be compared
+ */
+export function normalizeQuery(text: string): string {
+    return text.replace(/\b(savepoint|cursor)_[0-9a-f]+/g, "$1_X");
+}
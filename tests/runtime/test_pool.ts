@@ -0,0 +1,118 @@
+import * as assert from "assert";
+import { newPoolConnection, postgreSqlError, queryResult, withoutConsoleError } from "./fake_pg";
+
+export async function testChecksOutClientForEachQuery() {
+    const [conn, clients] = newPoolConnection();
+
+    await conn.execute(conn.sql`DELETE FROM employee_skill`);
+    await conn.execute(conn.sql`DELETE FROM employee`);
+
+    assert.strictEqual(clients.length, 2);
+    assert.deepStrictEqual(clients.map(c => c.queries), [["DELETE FROM employee_skill"], ["DELETE FROM employee"]]);
+    assert.deepStrictEqual(clients.map(c => c.releases), [[undefined], [undefined]]);
+}
+
+export async function testTransactionUsesSingleClient() {
+    const [conn, clients] = newPoolConnection();
+
+    await conn.transaction(async tx => {
+        await tx.execute(tx.sql`DELETE FROM employee_skill`);
+        await tx.execute(tx.sql`DELETE FROM employee`);
+    });
+
+    assert.strictEqual(clients.length, 1);
+    assert.deepStrictEqual(clients[0].queries, ["BEGIN", "DELETE FROM employee_skill", "DELETE FROM employee", "COMMIT"]);
+    assert.deepStrictEqual(clients[0].releases, [undefined]);
+}
+
+export async function testRetriesDeadlockWithNewClient() {
+    let failures = 1;
+    const [conn, clients] = newPoolConnection(text => {
+        if (text === "SELECT 1" && failures > 0) {
+            --failures;
+            throw postgreSqlError("40P01", "deadlock detected");
+        }
+        return queryResult([]);
+    });
+
+    let attempts = 0;
+    await conn.transaction(async tx => {
+        ++attempts;
+        await tx.execute(tx.sql`SELECT 1`);
+    });
+
+    assert.strictEqual(attempts, 2);
+    assert.strictEqual(clients.length, 2);
+    assert.deepStrictEqual(clients[0].queries, ["BEGIN", "SELECT 1", "ROLLBACK"]);
+    assert.deepStrictEqual(clients[1].queries, ["BEGIN", "SELECT 1", "COMMIT"]);
+    assert.deepStrictEqual(clients.map(c => c.releases), [[undefined], [undefined]]);
+}
+
+export async function testReturnsClientAfterDatabaseError() {
+    const [conn, clients] = newPoolConnection(() => {
+        throw postgreSqlError("23505", "duplicate key value violates unique constraint");
+    });
+
+    await assert.rejects(conn.execute(conn.sql`INSERT INTO employee_skill DEFAULT VALUES`), /duplicate key value/);
+
+    assert.deepStrictEqual(clients[0].releases, [undefined]);
+}
+
+export async function testReturnsClientAfterApplicationError() {
+    const [conn, clients] = newPoolConnection();
+
+    await assert.rejects(conn.transaction(async tx => {
+        await tx.execute(tx.sql`DELETE FROM employee_skill`);
+        throw new Error("Action failed");
+    }), /^Error: Action failed$/);
+
+    // The transaction was rolled back, so the client can be reused
+    assert.deepStrictEqual(clients[0].queries, ["BEGIN", "DELETE FROM employee_skill", "ROLLBACK"]);
+    assert.deepStrictEqual(clients[0].releases, [undefined]);
+}
+
+export async function testDiscardsClientAfterConnectionError() {
+    const connectionError = new Error("Connection terminated unexpectedly");
+    const [conn, clients] = newPoolConnection(() => {
+        throw connectionError;
+    });
+
+    await assert.rejects(conn.execute(conn.sql`DELETE FROM employee_skill`), /Connection terminated unexpectedly/);
+
+    assert.deepStrictEqual(clients[0].releases, [connectionError]);
+}
+
+export async function testDiscardsClientAfterConnectionErrorOnCommit() {
+    const connectionError = new Error("Connection terminated unexpectedly");
+    const [conn, clients] = newPoolConnection(text => {
+        if (text === "COMMIT") {
+            throw connectionError;
+        }
+        return queryResult([]);
+    });
+
+    await assert.rejects(conn.transaction(async tx => {
+        await tx.execute(tx.sql`DELETE FROM employee_skill`);
+    }), /Connection terminated unexpectedly/);
+
+    assert.deepStrictEqual(clients[0].releases, [connectionError]);
+}
+
+export async function testDiscardsClientAfterFailedRollback() {
+    const [conn, clients] = newPoolConnection(text => {
+        if (text === "ROLLBACK") {
+            throw new Error("Connection terminated unexpectedly");
+        }
+        return queryResult([]);
+    });
+
+    const actionError = new Error("Action failed");
+    await withoutConsoleError(async () => {
+        await assert.rejects(conn.transaction(async tx => {
+            await tx.execute(tx.sql`DELETE FROM employee_skill`);
+            throw actionError;
+        }), /^Error: Action failed$/);
+    });
+
+    assert.deepStrictEqual(clients[0].releases, [actionError]);
+}
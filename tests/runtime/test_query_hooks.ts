@@ -0,0 +1,178 @@
+import * as assert from "assert";
+import * as path from "path";
+import { Connection, PoolConnection, QueryHooks, QueryInfo, Req } from "../../lib/mfsqltool";
+import { FakeClient, fakePool, FakeResponder, normalizeQuery, postgreSqlError, queryResult } from "./fake_pg";
+
+interface HookCall {
+    hook: "onQueryStart" | "onQueryEnd" | "onQueryError";
+    query: QueryInfo;
+    durationMs: number | null;
+    rowCount: number | null;
+    err: any;
+}
+
+/**
+ * Hooks that record all of their calls
+ */
+function recordingHooks(): [QueryHooks, HookCall[]] {
+    const calls: HookCall[] = [];
+    const hooks: QueryHooks = {
+        onQueryStart: query => {
+            calls.push({ hook: "onQueryStart", query: query, durationMs: null, rowCount: null, err: null });
+        },
+        onQueryEnd: (query, durationMs, rowCount) => {
+            calls.push({ hook: "onQueryEnd", query: query, durationMs: durationMs, rowCount: rowCount, err: null });
+        },
+        onQueryError: (query, durationMs, err) => {
+            calls.push({ hook: "onQueryError", query: query, durationMs: durationMs, rowCount: null, err: err });
+        }
+    };
+    return [hooks, calls];
+}
+
+function newConnection(hooks: QueryHooks, respond?: FakeResponder): Connection<void, unknown> {
+    return new Connection<void, unknown>(new FakeClient(respond).asClient(), hooks);
+}
+
+/**
+ * The compiled files are in "outDir", and their TypeScript files are in
+ * "rootDir" (see "tsconfig.json")
+ */
+const OUT_DIR = path.resolve(__dirname, "../..");
+const ROOT_DIR = path.resolve(__dirname, "../../../..");
+
+function typeScriptFileName(fileName: string): string {
+    return fileName.startsWith(OUT_DIR + path.sep)
+        ? path.join(ROOT_DIR, fileName.slice(OUT_DIR.length)).replace(/\.js$/, ".ts")
+        : fileName;
+}
+
+/**
+ * Runs the action with the file names of the stack traces mapped to the
+ * TypeScript files, like "source-map-support" does
+ */
+async function withMappedStackTraces(action: () => Promise<void>): Promise<void> {
+    const prepareStackTrace = Error.prepareStackTrace;
+    Error.prepareStackTrace = (err, stackFrames) => [`${err}`].concat(stackFrames.map(stackFrame => {
+        const fileName = stackFrame.getFileName();
+        const frame = stackFrame.toString();
+        return fileName !== null && fileName !== undefined ? frame.split(fileName).join(typeScriptFileName(fileName)) : frame;
+    })).join("\n    at ");
+    try {
+        await action();
+    } finally {
+        Error.prepareStackTrace = prepareStackTrace;
+    }
+}
+
+export async function testQueryEnd() {
+    const [hooks, calls] = recordingHooks();
+    const conn = newConnection(hooks, () => queryResult([{ id: "1" }, { id: "2" }]));
+
+    await conn.query(conn.sql`SELECT id FROM employee WHERE department_id = ${5}`);
+
+    assert.deepStrictEqual(calls.map(c => c.hook), ["onQueryStart", "onQueryEnd"]);
+    assert.strictEqual(calls[0].query, calls[1].query);
+    assert.strictEqual(calls[1].query.text, "SELECT id FROM employee WHERE department_id = ($1)");
+    assert.strictEqual(calls[1].query.numParams, 1);
+    assert.strictEqual(calls[1].rowCount, 2);
+    assert.strictEqual(typeof calls[1].durationMs, "number");
+}
+
+export async function testQueryError() {
+    const [hooks, calls] = recordingHooks();
+    const queryError = postgreSqlError("23505", "duplicate key value violates unique constraint");
+    const conn = newConnection(hooks, () => {
+        throw queryError;
+    });
+
+    await assert.rejects(conn.execute(conn.sql`INSERT INTO employee_skill DEFAULT VALUES`), /duplicate key value/);
+
+    assert.deepStrictEqual(calls.map(c => c.hook), ["onQueryStart", "onQueryError"]);
+    assert.strictEqual(calls[1].err, queryError);
+}
+
+export async function testSourceLocationIsCaller() {
+    const [hooks, calls] = recordingHooks();
+    const conn = newConnection(hooks, () => queryResult([{ id: "1" }]));
+
+    await conn.query(conn.sql`SELECT id FROM employee`);
+    await conn.queryOne<{ id: Req<string> }>(conn.sql`SELECT id FROM employee`);
+    await conn.queryScalar<string>(conn.sql`SELECT id FROM employee`);
+
+    // Executes two queries, and the second one is after an `await`. It isn't
+    // awaited by an async function, so V8 doesn't include the caller in the
+    // stack trace of the second query
+    await new Promise<void>((resolve, reject) => {
+        conn.insertMany("employee", [{ fname: "A" }, { fname: "B" }]).then(() => resolve(), reject);
+    });
+
+    await conn.transaction(async tx => {
+        for await (const rows of tx.queryStream(tx.sql`SELECT id FROM employee`)) {
+            assert.strictEqual(rows.length, 1);
+        }
+    });
+
+    // Including BEGIN, DECLARE, FETCH, CLOSE and COMMIT
+    const onQueryEndCalls = calls.filter(c => c.hook === "onQueryEnd");
+    assert.strictEqual(onQueryEndCalls.length, 10);
+    for (const call of onQueryEndCalls) {
+        const sourceLocation = call.query.sourceLocation;
+        if (sourceLocation === null || !sourceLocation.startsWith(`${__filename}:`)) {
+            throw new Error(`Wrong sourceLocation ${sourceLocation} of query: ${call.query.text}`);
+        }
+    }
+}
+
+export async function testSourceLocationWithMappedStackTraces() {
+    const [hooks, calls] = recordingHooks();
+    const conn = newConnection(hooks, () => queryResult([{ id: "1" }]));
+
+    await withMappedStackTraces(async () => {
+        await conn.query(conn.sql`SELECT id FROM employee`);
+    });
+
+    const sourceLocation = calls[0].query.sourceLocation;
+    if (sourceLocation === null || !sourceLocation.startsWith(`${typeScriptFileName(__filename)}:`)) {
+        throw new Error(`Wrong sourceLocation ${sourceLocation} with mapped stack traces`);
+    }
+}
+
+export async function testTransactionStatements() {
+    const [hooks, calls] = recordingHooks();
+    const conn = newConnection(hooks);
+
+    await conn.transaction(async tx => {
+        await tx.transaction(async nested => {
+            await nested.execute(nested.sql`DELETE FROM employee_skill`);
+        });
+    });
+
+    const onQueryEndCalls = calls.filter(c => c.hook === "onQueryEnd");
+    assert.deepStrictEqual(onQueryEndCalls.map(c => normalizeQuery(c.query.text)), [
+        "BEGIN",
+        "SAVEPOINT savepoint_X",
+        "DELETE FROM employee_skill",
+        "RELEASE SAVEPOINT savepoint_X",
+        "COMMIT"
+    ]);
+    for (const call of onQueryEndCalls) {
+        const sourceLocation = call.query.sourceLocation;
+        if (sourceLocation === null || !sourceLocation.startsWith(`${__filename}:`)) {
+            throw new Error(`Wrong sourceLocation ${sourceLocation} of query: ${call.query.text}`);
+        }
+    }
+}
+
+export async function testDurationExcludesPoolWait() {
+    const [hooks, calls] = recordingHooks();
+    const connectDelayMs = 200;
+    const conn = new PoolConnection<void, unknown>(fakePool(() => new FakeClient(), connectDelayMs), hooks);
+
+    await conn.execute(conn.sql`DELETE FROM employee_skill`);
+
+    const durationMs = calls[1].durationMs;
+    if (durationMs === null || durationMs >= connectDelayMs) {
+        throw new Error(`Duration ${durationMs}ms includes waiting for the pool (${connectDelayMs}ms)`);
+    }
+}
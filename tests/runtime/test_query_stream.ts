@@ -0,0 +1,171 @@
+import * as assert from "assert";
+import { Connection, Req } from "../../lib/mfsqltool";
+import { FakeClient, FakeResponder, newPoolConnection, normalizeQuery, queryResult, withoutConsoleError } from "./fake_pg";
+
+/**
+ * Responds to each "FETCH" with the next rows of a result that has `numRows`
+ * rows (with the ids 1, 2, 3, ...)
+ */
+function cursorResponder(numRows: number): FakeResponder {
+    let numFetched = 0;
+    return text => {
+        const match = /^FETCH FORWARD (\d+) FROM /.exec(text);
+        if (match === null) {
+            return queryResult([]);
+        }
+
+        const rows: object[] = [];
+        while (rows.length < parseInt(match[1], 10) && numFetched < numRows) {
+            ++numFetched;
+            rows.push({ id: `${numFetched}` });
+        }
+        return queryResult(rows);
+    };
+}
+
+type IdRow = { id: Req<string> };
+
+export async function testRequiresTransactionWithSingleClient() {
+    const client = new FakeClient(cursorResponder(5));
+    const conn = new Connection<void, unknown>(client.asClient());
+
+    await assert.rejects(conn.queryStream<IdRow>(conn.sql`SELECT id FROM employee`).next(),
+        /^Error: queryStream with a single client must be called inside of a transaction$/);
+    assert.deepStrictEqual(client.queries, []);
+}
+
+export async function testRejectsInvalidBatchSize() {
+    const [conn, clients] = newPoolConnection(cursorResponder(5));
+
+    for (const batchSize of [0, -2, 1.5, NaN]) {
+        await assert.rejects(conn.queryStream<IdRow>(conn.sql`SELECT id FROM employee`, batchSize).next(),
+            /^Error: Invalid queryStream batchSize \(must be a positive integer\): /);
+    }
+    assert.strictEqual(clients.length, 0);
+}
+
+export async function testFetchesBatchesWithPool() {
+    const [conn, clients] = newPoolConnection(cursorResponder(5));
+
+    const batches: string[][] = [];
+    for await (const rows of conn.queryStream<IdRow>(conn.sql`SELECT id FROM employee`, 2)) {
+        batches.push(rows.map(row => row.id.val()));
+    }
+
+    assert.deepStrictEqual(batches, [["1", "2"], ["3", "4"], ["5"]]);
+    assert.strictEqual(clients.length, 1);
+    assert.deepStrictEqual(clients[0].queries.map(normalizeQuery), [
+        "BEGIN",
+        "DECLARE cursor_X NO SCROLL CURSOR FOR SELECT id FROM employee",
+        "FETCH FORWARD 2 FROM cursor_X",
+        "FETCH FORWARD 2 FROM cursor_X",
+        "FETCH FORWARD 2 FROM cursor_X",
+        "COMMIT"
+    ]);
+    assert.deepStrictEqual(clients[0].releases, [undefined]);
+}
+
+export async function testBreakRollsBackWithPool() {
+    const [conn, clients] = newPoolConnection(cursorResponder(5));
+
+    for await (const rows of conn.queryStream<IdRow>(conn.sql`SELECT id FROM employee`, 2)) {
+        assert.strictEqual(rows.length, 2);
+        break;
+    }
+
+    assert.deepStrictEqual(clients[0].queries.map(normalizeQuery), [
+        "BEGIN",
+        "DECLARE cursor_X NO SCROLL CURSOR FOR SELECT id FROM employee",
+        "FETCH FORWARD 2 FROM cursor_X",
+        "ROLLBACK"
+    ]);
+    assert.deepStrictEqual(clients[0].releases, [undefined]);
+}
+
+export async function testDiscardsClientAfterFailedRollback() {
+    const respond = cursorResponder(5);
+    const [conn, clients] = newPoolConnection((text, values) => {
+        if (text === "ROLLBACK") {
+            throw new Error("Connection terminated unexpectedly");
+        }
+        return respond(text, values);
+    });
+
+    await withoutConsoleError(async () => {
+        for await (const rows of conn.queryStream<IdRow>(conn.sql`SELECT id FROM employee`, 2)) {
+            assert.strictEqual(rows.length, 2);
+            break;
+        }
+    });
+
+    // The iteration didn't fail, but the pool must still discard the client
+    assert.strictEqual(clients[0].releases.length, 1);
+    assert.ok(clients[0].releases[0] instanceof Error);
+}
+
+export async function testBreakClosesCursorInTransaction() {
+    const client = new FakeClient(cursorResponder(5));
+    const conn = new Connection<void, unknown>(client.asClient());
+
+    await conn.transaction(async tx => {
+        for await (const rows of tx.queryStream<IdRow>(tx.sql`SELECT id FROM employee`, 2)) {
+            assert.strictEqual(rows.length, 2);
+            break;
+        }
+        await tx.execute(tx.sql`DELETE FROM employee_skill`);
+    });
+
+    // The transaction continues after the cursor is closed
+    assert.deepStrictEqual(client.queries.map(normalizeQuery), [
+        "BEGIN",
+        "DECLARE cursor_X NO SCROLL CURSOR FOR SELECT id FROM employee",
+        "FETCH FORWARD 2 FROM cursor_X",
+        "CLOSE cursor_X",
+        "DELETE FROM employee_skill",
+        "COMMIT"
+    ]);
+}
+
+export async function testInterleavedQueriesWithPool() {
+    const [conn, clients] = newPoolConnection(cursorResponder(3));
+
+    for await (const rows of conn.queryStream<IdRow>(conn.sql`SELECT id FROM employee`, 2)) {
+        await conn.execute(conn.sql`DELETE FROM employee_skill WHERE employee_id = ANY(${rows.map(row => row.id.val())})`);
+    }
+
+    // The other queries use their own clients, so they don't run inside of
+    // the transaction of the cursor
+    assert.strictEqual(clients.length, 3);
+    assert.deepStrictEqual(clients[0].queries.map(normalizeQuery), [
+        "BEGIN",
+        "DECLARE cursor_X NO SCROLL CURSOR FOR SELECT id FROM employee",
+        "FETCH FORWARD 2 FROM cursor_X",
+        "FETCH FORWARD 2 FROM cursor_X",
+        "COMMIT"
+    ]);
+    assert.deepStrictEqual(clients[1].queries, ["DELETE FROM employee_skill WHERE employee_id = ANY(($1))"]);
+    assert.deepStrictEqual(clients[2].queries, ["DELETE FROM employee_skill WHERE employee_id = ANY(($1))"]);
+    assert.deepStrictEqual(clients.map(c => c.releases), [[undefined], [undefined], [undefined]]);
+}
+
+export async function testInterleavedQueriesInTransaction() {
+    const client = new FakeClient(cursorResponder(3));
+    const conn = new Connection<void, unknown>(client.asClient());
+
+    await conn.transaction(async tx => {
+        for await (const rows of tx.queryStream<IdRow>(tx.sql`SELECT id FROM employee`, 2)) {
+            await tx.execute(tx.sql`DELETE FROM employee_skill WHERE employee_id = ANY(${rows.map(row => row.id.val())})`);
+        }
+    });
+
+    assert.deepStrictEqual(client.queries.map(normalizeQuery), [
+        "BEGIN",
+        "DECLARE cursor_X NO SCROLL CURSOR FOR SELECT id FROM employee",
+        "FETCH FORWARD 2 FROM cursor_X",
+        "DELETE FROM employee_skill WHERE employee_id = ANY(($1))",
+        "FETCH FORWARD 2 FROM cursor_X",
+        "DELETE FROM employee_skill WHERE employee_id = ANY(($1))",
+        "CLOSE cursor_X",
+        "COMMIT"
+    ]);
+}
@@ -0,0 +1,202 @@
+import * as assert from "assert";
+import { Connection } from "../../lib/mfsqltool";
+import { FakeClient, normalizeQuery, postgreSqlError, queryResult } from "./fake_pg";
+
+export async function testTransactionCommits() {
+    const client = new FakeClient();
+    const conn = new Connection<void, unknown>(client.asClient());
+
+    const result = await conn.transaction(async tx => {
+        await tx.execute(tx.sql`DELETE FROM employee_skill`);
+        return 42;
+    });
+
+    assert.strictEqual(result, 42);
+    assert.deepStrictEqual(client.queries, ["BEGIN", "DELETE FROM employee_skill", "COMMIT"]);
+}
+
+export async function testTransactionRollsBack() {
+    const client = new FakeClient();
+    const conn = new Connection<void, unknown>(client.asClient());
+
+    await assert.rejects(conn.transaction(async tx => {
+        await tx.execute(tx.sql`DELETE FROM employee_skill`);
+        throw new Error("Action failed");
+    }), /^Error: Action failed$/);
+
+    assert.deepStrictEqual(client.queries, ["BEGIN", "DELETE FROM employee_skill", "ROLLBACK"]);
+}
+
+export async function testNestedTransactionReleasesSavepoint() {
+    const client = new FakeClient();
+    const conn = new Connection<void, unknown>(client.asClient());
+
+    await conn.transaction(async tx => {
+        await tx.execute(tx.sql`DELETE FROM employee_skill`);
+        await tx.transaction(async nested => {
+            await nested.execute(nested.sql`DELETE FROM employee`);
+        });
+    });
+
+    assert.deepStrictEqual(client.queries.map(normalizeQuery), [
+        "BEGIN",
+        "DELETE FROM employee_skill",
+        "SAVEPOINT savepoint_X",
+        "DELETE FROM employee",
+        "RELEASE SAVEPOINT savepoint_X",
+        "COMMIT"
+    ]);
+}
+
+export async function testNestedTransactionRollsBackSavepoint() {
+    const client = new FakeClient();
+    const conn = new Connection<void, unknown>(client.asClient());
+
+    await conn.transaction(async tx => {
+        await tx.execute(tx.sql`DELETE FROM employee_skill`);
+        await assert.rejects(tx.transaction(async nested => {
+            await nested.execute(nested.sql`DELETE FROM employee`);
+            throw new Error("Nested action failed");
+        }), /^Error: Nested action failed$/);
+        await tx.execute(tx.sql`DELETE FROM department`);
+    });
+
+    // Only the changes of the nested transaction are rolled back
+    assert.deepStrictEqual(client.queries.map(normalizeQuery), [
+        "BEGIN",
+        "DELETE FROM employee_skill",
+        "SAVEPOINT savepoint_X",
+        "DELETE FROM employee",
+        "ROLLBACK TO SAVEPOINT savepoint_X; RELEASE SAVEPOINT savepoint_X",
+        "DELETE FROM department",
+        "COMMIT"
+    ]);
+}
+
+export async function testNestedTransactionIsolationLevel() {
+    const conn = new Connection<void, unknown>(new FakeClient().asClient());
+
+    await conn.transaction(async tx => {
+        await assert.rejects(tx.transaction(async () => undefined, { isolationLevel: "SERIALIZABLE" }),
+            /^Error: The isolation level of a nested transaction can't be set$/);
+    });
+}
+
+export async function testRetriesSerializationFailure() {
+    let failures = 2;
+    const client = new FakeClient(text => {
+        if (text === "SELECT 1" && failures > 0) {
+            --failures;
+            throw postgreSqlError("40001", "could not serialize access due to concurrent update");
+        }
+        return queryResult([]);
+    });
+    const conn = new Connection<void, unknown>(client.asClient());
+
+    let attempts = 0;
+    await conn.transaction(async tx => {
+        ++attempts;
+        await tx.execute(tx.sql`SELECT 1`);
+    }, { isolationLevel: "SERIALIZABLE" });
+
+    assert.strictEqual(attempts, 3);
+    assert.deepStrictEqual(client.queries, [
+        "BEGIN ISOLATION LEVEL SERIALIZABLE", "SELECT 1", "ROLLBACK",
+        "BEGIN ISOLATION LEVEL SERIALIZABLE", "SELECT 1", "ROLLBACK",
+        "BEGIN ISOLATION LEVEL SERIALIZABLE", "SELECT 1", "COMMIT"
+    ]);
+}
+
+export async function testRetriesDeadlock() {
+    let failures = 1;
+    const client = new FakeClient(text => {
+        if (text === "COMMIT" && failures > 0) {
+            --failures;
+            throw postgreSqlError("40P01", "deadlock detected");
+        }
+        return queryResult([]);
+    });
+    const conn = new Connection<void, unknown>(client.asClient());
+
+    let attempts = 0;
+    await conn.transaction(async tx => {
+        ++attempts;
+        await tx.execute(tx.sql`SELECT 1`);
+    });
+
+    assert.strictEqual(attempts, 2);
+    assert.deepStrictEqual(client.queries, [
+        "BEGIN", "SELECT 1", "COMMIT",
+        "BEGIN", "SELECT 1", "COMMIT"
+    ]);
+}
+
+export async function testRetriesFailedNestedTransaction() {
+    let failures = 1;
+    const client = new FakeClient(text => {
+        if (text === "SELECT 1" && failures > 0) {
+            --failures;
+            throw postgreSqlError("40001", "could not serialize access due to concurrent update");
+        }
+        return queryResult([]);
+    });
+    const conn = new Connection<void, unknown>(client.asClient());
+
+    // The nested transaction isn't retried by itself, the entire outer
+    // transaction is
+    let attempts = 0;
+    await conn.transaction(async tx => {
+        ++attempts;
+        await tx.transaction(async nested => {
+            await nested.execute(nested.sql`SELECT 1`);
+        });
+    });
+
+    assert.strictEqual(attempts, 2);
+    assert.deepStrictEqual(client.queries.map(normalizeQuery), [
+        "BEGIN", "SAVEPOINT savepoint_X", "SELECT 1", "ROLLBACK TO SAVEPOINT savepoint_X; RELEASE SAVEPOINT savepoint_X", "ROLLBACK",
+        "BEGIN", "SAVEPOINT savepoint_X", "SELECT 1", "RELEASE SAVEPOINT savepoint_X", "COMMIT"
+    ]);
+}
+
+export async function testGivesUpAfterMaxRetries() {
+    const client = new FakeClient(text => {
+        if (text === "SELECT 1") {
+            throw postgreSqlError("40001", "could not serialize access due to concurrent update");
+        }
+        return queryResult([]);
+    });
+    const conn = new Connection<void, unknown>(client.asClient());
+
+    let attempts = 0;
+    await assert.rejects(conn.transaction(async tx => {
+        ++attempts;
+        await tx.execute(tx.sql`SELECT 1`);
+    }, { maxRetries: 2 }), /^Error: could not serialize access due to concurrent update$/);
+
+    assert.strictEqual(attempts, 3);
+}
+
+export async function testDoesNotRetryOtherErrors() {
+    const client = new FakeClient(text => {
+        if (text === "SELECT 1") {
+            throw postgreSqlError("23505", "duplicate key value violates unique constraint");
+        }
+        return queryResult([]);
+    });
+    const conn = new Connection<void, unknown>(client.asClient());
+
+    let attempts = 0;
+    await assert.rejects(conn.transaction(async tx => {
+        ++attempts;
+        await tx.execute(tx.sql`SELECT 1`);
+    }), /^Error: duplicate key value violates unique constraint$/);
+    assert.strictEqual(attempts, 1);
+
+    attempts = 0;
+    await assert.rejects(conn.transaction(async () => {
+        ++attempts;
+        throw new Error("could not serialize access due to concurrent update");
+    }), /^Error: could not serialize access due to concurrent update$/);
+    assert.strictEqual(attempts, 1);
+}
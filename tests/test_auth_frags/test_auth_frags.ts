@@ -1,4 +1,4 @@
-import { Opt, sqlFragAuth } from "../../lib/mfsqltool";
+import { Req, sqlFragAuth } from "../../lib/mfsqltool";
 import { AuthUser, AuthConn, userIdFrag, employeeIdFrag, customerIdFrag, AuthEmployee, AuthCustomer, defineSqlView, AuthNone } from "../common/auth";
 
 const trueFrag = sqlFragAuth<AuthUser>()("TRUE");
@@ -7,7 +7,7 @@ export const employeeName = defineSqlView`SELECT fname AS employee_fname, lname
 
 export async function testAuthNone(conn: AuthConn<AuthNone>) {
     const rows = await conn.query<{
-        n: Opt<number>
+        n: Req<number>
     }>(conn.sql
         `
         SELECT 1 AS n
@@ -20,7 +20,7 @@ export async function testAuthNone(conn: AuthConn<AuthNone>) {
 
 export async function testAuthUser(conn: AuthConn<AuthUser>) {
     const rows = await conn.query<{
-        n: Opt<number>
+        n: Req<number>
     }>(conn.sql
         `
         SELECT 1 AS n
@@ -35,7 +35,7 @@ export async function testAuthUser(conn: AuthConn<AuthUser>) {
 
 export async function testAuthEmployee(conn: AuthConn<AuthEmployee>) {
     const rows = await conn.query<{
-        n: Opt<number>
+        n: Req<number>
     }>(conn.sql
         `
         SELECT 1 AS n
@@ -51,7 +51,7 @@ export async function testAuthEmployee(conn: AuthConn<AuthEmployee>) {
 
 export async function testAuthCustomer(conn: AuthConn<AuthCustomer>) {
     const rows = await conn.query<{
-        n: Opt<number>
+        n: Req<number>
     }>(conn.sql
         `
         SELECT 1 AS n
@@ -1,4 +1,4 @@
-import { Opt, sqlFragAuth } from "../../lib/mfsqltool";
+import { Req, sqlFragAuth } from "../../lib/mfsqltool";
 import { AuthUser, AuthConn, userIdFrag, defineSqlView } from "../common/auth";
 
 const trueFrag = sqlFragAuth<AuthUser>()("TRUE");
@@ -7,7 +7,7 @@ export const employeeName = defineSqlView`SELECT fname AS employee_fname, lname
 
 export async function testAuthUser(conn: AuthConn<AuthUser>) {
     const rows = await conn.query<{
-        n: Opt<number>
+        n: Req<number>
     }>(conn.sql
         `
         SELECT 1 AS n
@@ -0,0 +1,18 @@
+import { Connection, Opt, Req } from "../../lib/mfsqltool";
+
+export async function testQuotedColumnNames(conn: Connection<void, unknown>) {
+    const rows = await conn.query<{
+        "first name": Req<string>,
+        "phone-number": Opt<string>,
+        fname: Req<string>
+    }>(conn.sql
+        `
+        SELECT
+            fname AS "first name",
+            phonenumber AS "phone-number",
+            fname
+        FROM employee
+        `);
+
+    console.log(rows);
+}
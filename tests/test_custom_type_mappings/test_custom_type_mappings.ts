@@ -0,0 +1,19 @@
+import { Connection, Req } from "../../lib/mfsqltool";
+
+class CalendarDay {
+    protected dummy: CalendarDay[];
+}
+
+export async function test(conn: Connection<CalendarDay, unknown>, day: CalendarDay) {
+    const rows = await conn.query<{
+        id: Req<number>,
+        hiredate: Req<CalendarDay>
+    }>(conn.sql
+        `
+        SELECT id, hiredate
+        FROM employee
+        WHERE hiredate < ${day}
+        `);
+
+    console.log(rows);
+}
@@ -0,0 +1,20 @@
+import { Connection } from "../../lib/mfsqltool";
+
+export async function testDeleteFilterObject(conn: Connection<void, unknown>, customerId: number) {
+    const numDeleted = await conn.deleteWhere("car", {
+        customer_id: customerId,
+        status: "inactive"
+    });
+
+    console.log(numDeleted);
+}
+
+export async function testDeleteFilterNull(conn: Connection<void, unknown>, phonenumber: string | null) {
+    await conn.deleteWhere("customer", {
+        phonenumber: phonenumber
+    });
+}
+
+export async function testDeleteFilterSql(conn: Connection<void, unknown>, minSalary: number) {
+    await conn.deleteWhere("employee", conn.sql`salary < ${minSalary} AND manager_id IS NULL`);
+}
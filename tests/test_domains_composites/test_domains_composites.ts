@@ -0,0 +1,53 @@
+import { Connection, Opt, Req } from "../../lib/mfsqltool";
+
+export async function testDomainColumns(conn: Connection<void, unknown>) {
+    const rows = await conn.query<{
+        name: Req<string>,
+        email: Req<string>
+    }>(conn.sql
+        `
+        SELECT
+            name,
+            email
+        FROM supplier
+        `);
+
+    console.log(rows);
+}
+
+export async function testCompositeColumns(conn: Connection<void, unknown>) {
+    const rows = await conn.query<{
+        billing_address: Req<{ street: string | null; city: string | null; }>,
+        shipping_address: Opt<{ street: string | null; city: string | null; }>
+    }>(conn.sql
+        `
+        SELECT
+            billing_address,
+            shipping_address
+        FROM supplier
+        `);
+
+    console.log(rows);
+}
+
+export async function testDomainParam(conn: Connection<void, unknown>, email: string) {
+    const rows = await conn.query<{
+        id: Req<number>
+    }>(conn.sql
+        `
+        SELECT id
+        FROM supplier
+        WHERE email = ${email}
+        `);
+
+    console.log(rows);
+}
+
+export async function testInsertDomain(conn: Connection<void, unknown>, email: string, address: { street: string | null; city: string | null; }) {
+    await conn.insert("supplier", {
+        name: "Acme",
+        email: email,
+        billing_address: address,
+        shipping_address: null
+    });
+}
@@ -0,0 +1,56 @@
+import { Connection, Opt, Req } from "../../lib/mfsqltool";
+
+type InvoiceStatus = "draft" | "sent" | "paid";
+
+export async function testEnumColumns(conn: Connection<void, unknown>) {
+    const rows = await conn.query<{
+        status: Req<"draft" | "paid" | "sent">,
+        previous_status: Opt<"draft" | "paid" | "sent">,
+        statuses: Req<("draft" | "paid" | "sent" | null)[]>
+    }>(conn.sql
+        `
+        SELECT
+            status,
+            previous_status,
+            ARRAY[status, previous_status] AS statuses
+        FROM invoice
+        `);
+
+    console.log(rows);
+}
+
+export async function testEnumParams(conn: Connection<void, unknown>, status: InvoiceStatus, unpaidStatus: "draft" | "sent") {
+    const rows = await conn.query<{
+        id: Req<number>
+    }>(conn.sql
+        `
+        SELECT id
+        FROM invoice
+        WHERE status = ${status}
+        OR previous_status = ${unpaidStatus}
+        `);
+
+    console.log(rows);
+}
+
+export async function testStringLiteralUnionParamText(conn: Connection<void, unknown>, fname: "Alice" | "Bob") {
+    const rows = await conn.query<{
+        id: Req<number>
+    }>(conn.sql
+        `
+        SELECT id
+        FROM employee
+        WHERE fname = ${fname}
+        `);
+
+    console.log(rows);
+}
+
+export async function testInsertEnum(conn: Connection<void, unknown>, customerId: number, status: "draft" | "sent") {
+    await conn.insert("invoice", {
+        customer_id: customerId,
+        status: status,
+        previous_status: null,
+        total: 100
+    });
+}
@@ -0,0 +1,22 @@
+import { Connection } from "../../lib/mfsqltool";
+
+export async function testExecuteUpdate(conn: Connection<void, unknown>, id: number, salary: number) {
+    const numUpdated = await conn.execute(conn.sql
+        `
+        UPDATE employee
+        SET salary = ${salary}
+        WHERE id = ${id}
+        `);
+
+    console.log(numUpdated);
+}
+
+export async function testExecuteDelete(conn: Connection<void, unknown>) {
+    const numDeleted = await conn.execute(conn.sql
+        `
+        DELETE FROM invoice
+        WHERE status = 'draft'
+        `);
+
+    console.log(numDeleted);
+}
@@ -0,0 +1,159 @@
+import { Connection, Opt, Req } from "../../lib/mfsqltool";
+import { defineSqlView } from "../common/auth";
+
+export const employeeFullNames = defineSqlView`
+    SELECT
+        id,
+        fname || ' ' || lname AS full_name,
+        COALESCE(phonenumber, '') AS phonenumber
+    FROM employee
+`;
+
+export async function testStrictFunctions(conn: Connection<void, unknown>) {
+    const rows = await conn.query<{
+        full_name: Req<string>,
+        lower_fname: Req<string>,
+        double_salary: Req<number>,
+        phone: Opt<string>,
+        first_key: Opt<string>
+    }>(conn.sql
+        `
+        SELECT
+            fname || ' ' || lname AS full_name,
+            lower(fname) AS lower_fname,
+            salary * 2 AS double_salary,
+            'tel:' || phonenumber AS phone,
+            '{"a": "b"}'::jsonb ->> fname AS first_key
+        FROM employee
+        `);
+
+    console.log(rows);
+}
+
+export async function testNullableStrictFunctions(conn: Connection<void, unknown>) {
+    const rows = await conn.query<{
+        fname_prefix: Req<string>,
+        range_start: Opt<number>,
+        range_end: Opt<number>,
+        multirange_end: Opt<number>,
+        setting: Req<string>,
+        missing_setting: Opt<string>,
+        column_description: Opt<string>,
+        xact_id: Opt<string>,
+        started_at: Req<string>
+    }>(conn.sql
+        `
+        SELECT
+            substring(fname, 1, 2) AS fname_prefix,
+            lower('[1,5)'::int4range) AS range_start,
+            upper('[1,)'::int4range) AS range_end,
+            upper('{[1,5)}'::int4multirange) AS multirange_end,
+            current_setting('search_path') AS setting,
+            current_setting('mfsqlchecker.missing', true) AS missing_setting,
+            col_description('employee'::regclass, 1) AS column_description,
+            pg_current_xact_id_if_assigned()::text AS xact_id,
+            now()::text AS started_at
+        FROM employee
+        `);
+
+    console.log(rows);
+}
+
+export async function testCoalesce(conn: Connection<void, unknown>) {
+    const rows = await conn.query<{
+        phone: Req<string>,
+        maybe_phone: Opt<string>
+    }>(conn.sql
+        `
+        SELECT
+            COALESCE(phonenumber, '') AS phone,
+            COALESCE(phonenumber, NULL) AS maybe_phone
+        FROM employee
+        `);
+
+    console.log(rows);
+}
+
+export async function testAggregates(conn: Connection<void, unknown>) {
+    const rows = await conn.query<{
+        num: Req<number>,
+        max_salary: Opt<number>,
+        rank: Req<number>
+    }>(conn.sql
+        `
+        SELECT
+            COUNT(*)::int AS num,
+            MAX(salary) AS max_salary,
+            (row_number() OVER ())::int AS rank
+        FROM employee
+        `);
+
+    console.log(rows);
+}
+
+export async function testPredicates(conn: Connection<void, unknown>) {
+    const rows = await conn.query<{
+        no_phone: Req<boolean>,
+        high_salary: Req<boolean>,
+        same_phone: Opt<boolean>,
+        has_cars: Req<boolean>,
+        num_cars: Opt<number>
+    }>(conn.sql
+        `
+        SELECT
+            phonenumber IS NULL AS no_phone,
+            salary > 1000 AND NOT (fname = 'Smith') AS high_salary,
+            phonenumber = '555' AS same_phone,
+            EXISTS (SELECT 1 FROM car WHERE car.employee_id = employee.id) AS has_cars,
+            (SELECT COUNT(*)::int FROM car WHERE car.employee_id = employee.id) AS num_cars
+        FROM employee
+        `);
+
+    console.log(rows);
+}
+
+export async function testCase(conn: Connection<void, unknown>) {
+    const rows = await conn.query<{
+        with_else: Req<string>,
+        without_else: Opt<string>
+    }>(conn.sql
+        `
+        SELECT
+            CASE WHEN salary > 1000 THEN 'high' ELSE 'low' END AS with_else,
+            CASE WHEN salary > 1000 THEN 'high' END AS without_else
+        FROM employee
+        `);
+
+    console.log(rows);
+}
+
+export async function testRollup(conn: Connection<void, unknown>) {
+    const rows = await conn.query<{
+        department_id: Opt<number>,
+        num: Req<number>
+    }>(conn.sql
+        `
+        SELECT
+            department_id,
+            COUNT(*)::int AS num
+        FROM employee
+        GROUP BY ROLLUP (department_id)
+        `);
+
+    console.log(rows);
+}
+
+export async function testView(conn: Connection<void, unknown>) {
+    const rows = await conn.query<{
+        full_name: Req<string>,
+        phonenumber: Req<string>
+    }>(conn.sql
+        `
+        SELECT
+            full_name,
+            phonenumber
+        FROM ${employeeFullNames}
+        `);
+
+    console.log(rows);
+}
@@ -0,0 +1,95 @@
+import { Connection, Opt, Req } from "../../lib/mfsqltool";
+import { defineSqlView } from "../common/auth";
+
+class DbJson<T = unknown> {
+    protected dummy: T[];
+}
+
+interface ShipmentDetails {
+    carrier: string;
+    parcels: {
+        weight: number;
+        fragile: boolean;
+    }[];
+}
+
+export const shipmentDetails = defineSqlView`
+    SELECT
+        id,
+        details,
+        details->'carrier' AS carrier
+    FROM shipment
+`;
+
+export async function testJsonColumns(conn: Connection<DbJson<unknown>, unknown>) {
+    const rows = await conn.query<{
+        details: Req<DbJson<ShipmentDetails>>,
+        tracking: Opt<DbJson>,
+        carrier: Opt<DbJson<ShipmentDetails["carrier"]>>,
+        first_parcel_weight: Opt<DbJson<ShipmentDetails["parcels"][number]["weight"]>>,
+        carrier_text: Opt<string>
+    }>(conn.sql
+        `
+        SELECT
+            details,
+            tracking,
+            details->'carrier' AS carrier,
+            details->'parcels'->0->'weight' AS first_parcel_weight,
+            details->>'carrier' AS carrier_text
+        FROM shipment
+        `);
+
+    console.log(rows);
+}
+
+export async function testJsonColumnsThroughViews(conn: Connection<DbJson<unknown>, unknown>) {
+    const rows = await conn.query<{
+        details: Req<DbJson<ShipmentDetails>>,
+        carrier: Opt<DbJson<ShipmentDetails["carrier"]>>,
+        parcels: Opt<DbJson<ShipmentDetails["parcels"]>>
+    }>(conn.sql
+        `
+        WITH s AS (
+            SELECT details FROM ${shipmentDetails}
+        )
+        SELECT
+            s.details,
+            v.carrier,
+            sub.details->'parcels' AS parcels
+        FROM s
+        CROSS JOIN ${shipmentDetails} v
+        CROSS JOIN (SELECT details FROM shipment) sub
+        `);
+
+    console.log(rows);
+}
+
+export async function testInsertJson(conn: Connection<DbJson<unknown>, unknown>, invoiceId: number, details: DbJson<ShipmentDetails>, tracking: DbJson<{ code: string }>) {
+    await conn.insert("shipment", {
+        invoice_id: invoiceId,
+        details: details,
+        tracking: tracking
+    });
+}
+
+export async function testJsonParams(conn: Connection<DbJson<unknown>, unknown>, id: number, details: DbJson<ShipmentDetails>, tracking: DbJson) {
+    await conn.query(conn.sql
+        `
+        UPDATE shipment
+        SET
+            details = ${details},
+            tracking = ${tracking}
+        WHERE id = ${id}
+        `);
+
+    const rows = await conn.query<{
+        id: Req<number>
+    }>(conn.sql
+        `
+        SELECT id
+        FROM shipment
+        WHERE details = ${details}
+        `);
+
+    console.log(rows);
+}
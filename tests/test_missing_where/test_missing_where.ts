@@ -0,0 +1,26 @@
+import { ALL_ROWS, Connection } from "../../lib/mfsqltool";
+
+export async function testUpdateWithWhere(conn: Connection<void, unknown>, id: number) {
+    await conn.query(conn.sql
+        `
+        UPDATE employee
+        SET salary = salary + 1
+        WHERE id = ${id}
+        `);
+}
+
+export async function testDeleteAllRows(conn: Connection<void, unknown>) {
+    await conn.query(conn.sql
+        `
+        DELETE FROM car
+        ${ALL_ROWS}
+        `);
+}
+
+export async function testUpdateAllRowsComment(conn: Connection<void, unknown>) {
+    await conn.query(conn.sql
+        `
+        UPDATE car /* ALL_ROWS */
+        SET status = 'inactive'
+        `);
+}
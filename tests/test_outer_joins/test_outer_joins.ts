@@ -0,0 +1,119 @@
+import { Connection, Opt, Req } from "../../lib/mfsqltool";
+import { defineSqlView } from "../common/auth";
+
+export const carCustomers = defineSqlView`
+    SELECT
+        car.id AS car_id,
+        customer.fname AS customer_fname
+    FROM car
+    LEFT JOIN customer ON customer.id = car.customer_id
+`;
+
+export async function testLeftJoin(conn: Connection<void, unknown>) {
+    const rows = await conn.query<{
+        fname: Req<string>,
+        name: Opt<string>
+    }>(conn.sql
+        `
+        SELECT employee.fname, department.name
+        FROM employee
+        LEFT JOIN department ON department.id = employee.department_id
+        `);
+
+    console.log(rows);
+}
+
+export async function testRightAndFullJoin(conn: Connection<void, unknown>) {
+    const rows = await conn.query<{
+        fname: Opt<string>,
+        name: Opt<string>,
+        model: Opt<string>
+    }>(conn.sql
+        `
+        SELECT employee.fname, department.name, car.model
+        FROM employee
+        RIGHT JOIN department ON department.id = employee.department_id
+        FULL JOIN car ON car.employee_id = employee.id
+        `);
+
+    console.log(rows);
+}
+
+export async function testNestedJoins(conn: Connection<void, unknown>) {
+    const rows = await conn.query<{
+        id: Req<number>,
+        email: Opt<string>,
+        model: Opt<string>
+    }>(conn.sql
+        `
+        SELECT employee.id, customer.email, car.model
+        FROM employee
+        LEFT JOIN (car JOIN customer ON customer.id = car.customer_id) ON car.employee_id = employee.id
+        `);
+
+    console.log(rows);
+}
+
+export async function testSubqueryAndCte(conn: Connection<void, unknown>) {
+    const rows = await conn.query<{
+        fname: Req<string>,
+        model: Opt<string>,
+        name: Opt<string>
+    }>(conn.sql
+        `
+        WITH d AS (
+            SELECT department.id, department.name FROM department
+        )
+        SELECT sub.fname, sub.model, d.name
+        FROM (
+            SELECT employee.fname, employee.department_id, car.model
+            FROM employee
+            LEFT JOIN car ON car.employee_id = employee.id
+        ) sub
+        LEFT JOIN d ON d.id = sub.department_id
+        `);
+
+    console.log(rows);
+}
+
+export async function testJoinAlias(conn: Connection<void, unknown>) {
+    const rows = await conn.query<{
+        fname: Req<string>,
+        model: Opt<string>
+    }>(conn.sql
+        `
+        SELECT j.fname, j.model
+        FROM (employee LEFT JOIN car ON car.employee_id = employee.id) AS j
+        `);
+
+    console.log(rows);
+}
+
+export async function testUnion(conn: Connection<void, unknown>) {
+    const rows = await conn.query<{
+        fname: Opt<string>
+    }>(conn.sql
+        `
+        SELECT employee.fname
+        FROM employee
+        UNION ALL
+        SELECT customer.fname
+        FROM car
+        LEFT JOIN customer ON customer.id = car.customer_id
+        `);
+
+    console.log(rows);
+}
+
+export async function testView(conn: Connection<void, unknown>) {
+    const rows = await conn.query<{
+        car_id: Req<number>,
+        customer_fname: Opt<string>
+    }>(conn.sql
+        `
+        SELECT car_id, customer_fname
+        FROM ${carCustomers}
+        `);
+
+    console.log(rows);
+}
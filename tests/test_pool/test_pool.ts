@@ -0,0 +1,26 @@
+import * as pg from "pg";
+import { PoolConnection } from "../../lib/mfsqltool";
+
+class PooledConnection extends PoolConnection<void, unknown> {
+    protected parseColumn(_columnType: number, val: any): any {
+        return val;
+    }
+}
+
+export async function testPool(pool: pg.Pool) {
+    const conn = new PooledConnection(pool);
+
+    const count = await conn.queryScalar<number>(conn.sql
+        `
+        SELECT COUNT(*)::int4
+        FROM employee
+        `);
+
+    await conn.transaction(async tx => {
+        await tx.execute(tx.sql
+            `
+            DELETE FROM employee_skill
+            WHERE level < ${count}
+            `);
+    });
+}
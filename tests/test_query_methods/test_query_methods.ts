@@ -0,0 +1,49 @@
+import { Connection, Req, ResultRow, SqlQueryExpr } from "../../lib/mfsqltool";
+
+class Repository {
+    /**
+     * Used only to statically identify this type
+     */
+    protected readonly RepositoryTypeTag: undefined;
+
+    constructor(conn: Connection<void, unknown>) {
+        this.conn = conn;
+    }
+
+    private readonly conn: Connection<void, unknown>;
+
+    async queryPaged<Row extends object = any>(pageSize: number, query: SqlQueryExpr<void, unknown>): Promise<ResultRow<Row>[]> {
+        // Cast away the type of "conn" so that "mfsqlchecker" doesn't detect
+        // this line of code as query that should be analyzed
+        const rows: ResultRow<any>[] = await (<any>this.conn).query(query);
+        return rows.slice(0, pageSize);
+    }
+
+    async insertRow(tableName: string, value: object): Promise<void> {
+        await (<any>this.conn).insert(tableName, value);
+    }
+}
+
+export async function testQueryPaged(conn: Connection<void, unknown>, departmentId: number) {
+    const repository = new Repository(conn);
+
+    const rows = await repository.queryPaged<{
+        id: Req<number>,
+        fname: Req<string>
+    }>(10, conn.sql
+        `
+        SELECT id, fname
+        FROM employee
+        WHERE department_id = ${departmentId}
+        `);
+
+    console.log(rows);
+}
+
+export async function testInsertRow(conn: Connection<void, unknown>, name: string) {
+    const repository = new Repository(conn);
+
+    await repository.insertRow("department", {
+        name: name
+    });
+}
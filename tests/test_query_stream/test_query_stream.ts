@@ -0,0 +1,18 @@
+import { Connection, Opt, Req } from "../../lib/mfsqltool";
+
+export async function testQueryStream(conn: Connection<void, unknown>) {
+    for await (const rows of conn.queryStream<{
+        id: Req<number>,
+        fname: Req<string>,
+        phonenumber: Opt<string>
+    }>(conn.sql
+        `
+        SELECT id, fname, phonenumber
+        FROM employee
+        ORDER BY id
+        `, 500)) {
+        for (const row of rows) {
+            console.log(row.id.val(), row.fname.val(), row.phonenumber.valOpt());
+        }
+    }
+}
@@ -0,0 +1,42 @@
+import { Connection } from "../../lib/mfsqltool";
+
+export async function testQueryScalar(conn: Connection<void, unknown>, id: number) {
+    const salary = await conn.queryScalar<number>(conn.sql
+        `
+        SELECT salary
+        FROM employee
+        WHERE id = ${id}
+        `);
+
+    console.log(salary);
+}
+
+export async function testQueryScalarUnnamed(conn: Connection<void, unknown>) {
+    const count = await conn.queryScalar<number>(conn.sql
+        `
+        SELECT COUNT(*)::int4
+        FROM employee
+        `);
+
+    console.log(count);
+}
+
+export async function testQueryColumn(conn: Connection<void, unknown>) {
+    const phonenumbers = await conn.queryColumn<string | null>(conn.sql
+        `
+        SELECT phonenumber
+        FROM employee
+        `);
+
+    console.log(phonenumbers);
+}
+
+export async function testQueryColumnEnum(conn: Connection<void, unknown>) {
+    const statuses = await conn.queryColumn<"draft" | "paid" | "sent">(conn.sql
+        `
+        SELECT status
+        FROM invoice
+        `);
+
+    console.log(statuses);
+}
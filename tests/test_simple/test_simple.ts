@@ -1,4 +1,4 @@
-import { sqlFrag, Connection, Opt, defineSqlViewPrimitive } from "../../lib/mfsqltool";
+import { sqlFrag, Connection, Req, defineSqlViewPrimitive } from "../../lib/mfsqltool";
 
 const trueFrag = sqlFrag("true");
 
@@ -6,7 +6,7 @@ export const employeeName = defineSqlViewPrimitive`SELECT fname AS employee_fnam
 
 export async function test(conn: Connection<void, unknown>) {
     const rows = await conn.query<{
-        n: Opt<number>
+        n: Req<number>
     }>(conn.sql
         `
         SELECT 1 AS n
@@ -0,0 +1,58 @@
+import { Connection, Req } from "../../lib/mfsqltool";
+
+export async function testTransaction(conn: Connection<void, unknown>, id: number, salary: number) {
+    const employee = await conn.transaction(async tx => {
+        await tx.execute(tx.sql
+            `
+            UPDATE employee
+            SET salary = ${salary}
+            WHERE id = ${id}
+            `);
+
+        return await tx.queryOne<{
+            fname: Req<string>,
+            lname: Req<string>
+        }>(tx.sql
+            `
+            SELECT fname, lname
+            FROM employee
+            WHERE id = ${id}
+            `);
+    });
+
+    console.log(employee.fname.val(), employee.lname.val());
+}
+
+export async function testNestedTransaction(conn: Connection<void, unknown>, id: number) {
+    await conn.transaction(async tx => {
+        await tx.execute(tx.sql
+            `
+            DELETE FROM employee_skill
+            WHERE employee_id = ${id}
+            `);
+
+        try {
+            await tx.transaction(async nested => {
+                await nested.execute(nested.sql
+                    `
+                    DELETE FROM employee
+                    WHERE id = ${id}
+                    `);
+            });
+        } catch (err) {
+            console.log(err);
+        }
+    });
+}
+
+export async function testTransactionIsolationLevel(conn: Connection<void, unknown>) {
+    const total = await conn.transaction(async tx => {
+        return await tx.queryScalar<number | null>(tx.sql
+            `
+            SELECT SUM(salary)::int4
+            FROM employee
+            `);
+    }, { isolationLevel: "SERIALIZABLE", maxRetries: 5 });
+
+    console.log(total);
+}
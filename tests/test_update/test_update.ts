@@ -0,0 +1,20 @@
+import { Connection, Req } from "../../lib/mfsqltool";
+
+export async function testUpdate(conn: Connection<void, unknown>, id: number, salary: number, phonenumber: string | null) {
+    await conn.update("employee", {
+        salary: salary,
+        phonenumber: phonenumber
+    }, conn.sql`WHERE id = ${id}`);
+}
+
+export async function testUpdateReturning(conn: Connection<void, unknown>, customerId: number, status: "sent" | "paid") {
+    const rows = await conn.update<{
+        id: Req<number>,
+        total: Req<number>
+    }>("invoice", {
+        status: status,
+        previous_status: null
+    }, conn.sql`WHERE customer_id = ${customerId} RETURNING id, total`);
+
+    console.log(rows);
+}
@@ -0,0 +1,27 @@
+import { Connection, Req } from "../../lib/mfsqltool";
+
+export async function testUpsert(conn: Connection<void, unknown>, employeeId: number, skill: string, level: number) {
+    await conn.upsert("employee_skill", {
+        employee_id: employeeId,
+        skill: skill,
+        level: level
+    }, {
+        conflictColumns: ["skill", "employee_id"],
+        updateColumns: ["level"]
+    });
+}
+
+export async function testUpsertDoNothingReturning(conn: Connection<void, unknown>, employeeId: number, skill: string) {
+    const row = await conn.upsert<{
+        level: Req<number>
+    }>("employee_skill", {
+        employee_id: employeeId,
+        skill: skill,
+        level: 1
+    }, {
+        conflictColumns: ["employee_id", "skill"],
+        updateColumns: []
+    }, conn.sql`RETURNING level`);
+
+    console.log(row);
+}